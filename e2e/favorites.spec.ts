@@ -0,0 +1,28 @@
+import { expect, test } from "@playwright/test";
+import { resetBackend, signIn } from "./helpers";
+
+test.beforeEach(async ({ page, request }) => {
+  await resetBackend(request);
+  await signIn(page);
+});
+
+test("favorites a word and finds it on the favorites tab", async ({ page }) => {
+  const toggle = page.getByRole("gridcell", { name: "ability" }).getByRole("button", { name: "Favorite \"ability\"" });
+  await toggle.click();
+  await expect(toggle).toHaveAttribute("aria-pressed", "true");
+
+  await page.getByRole("tab", { name: "Favorites" }).click();
+  await expect(page.getByRole("button", { name: "ability", exact: true })).toBeVisible();
+
+  // Still there after a reload, so the backend stored it
+  await page.reload();
+  await expect(page.getByRole("button", { name: "ability", exact: true })).toBeVisible();
+});
+
+test("removes a favorite", async ({ page }) => {
+  await page.getByRole("tab", { name: "Favorites" }).click();
+  await page.getByRole("button", { name: "Remove \"courage\" from favorites" }).click();
+
+  await expect(page.getByRole("button", { name: "courage", exact: true })).toHaveCount(0);
+  await expect(page.getByRole("button", { name: "serendipity", exact: true })).toBeVisible();
+});
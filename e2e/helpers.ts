@@ -0,0 +1,32 @@
+import { expect, type APIRequestContext, type Page } from "@playwright/test";
+import { MOCK_BACKEND_URL } from "../playwright.config";
+
+export const USER = { email: "ada@example.com", password: "password123" };
+
+/** Puts the mock backend back to its fixtures: seeded users, favorites and history, no sessions. */
+export async function resetBackend(request: APIRequestContext) {
+  await request.post(`${MOCK_BACKEND_URL}/__mock/reset`);
+}
+
+/** Invalidates every session the mock backend has issued. */
+export async function expireTokens(request: APIRequestContext) {
+  await request.post(`${MOCK_BACKEND_URL}/__mock/expire-tokens`);
+}
+
+export async function setTokenTtl(request: APIRequestContext, tokenTtlSeconds: number) {
+  await request.post(`${MOCK_BACKEND_URL}/__mock/token-ttl`, { data: { tokenTtlSeconds } });
+}
+
+/** Reset tokens the mock backend issued for `email`, as if read from the reset emails. */
+export async function resetTokensFor(request: APIRequestContext, email: string): Promise<string[]> {
+  const res = await request.post(`${MOCK_BACKEND_URL}/__mock/reset-tokens`, { data: { email } });
+  return res.json();
+}
+
+export async function signIn(page: Page, path = "/dictionary") {
+  await page.goto(`/login?returnTo=${encodeURIComponent(path)}`);
+  await page.getByPlaceholder("Email address").fill(USER.email);
+  await page.getByPlaceholder("Password").fill(USER.password);
+  await page.getByRole("button", { name: "Sign in" }).click();
+  await expect(page).toHaveURL(path);
+}
@@ -0,0 +1,42 @@
+import { expect, test } from "@playwright/test";
+import { resetBackend, signIn, USER } from "./helpers";
+
+test.beforeEach(async ({ request }) => {
+  await resetBackend(request);
+});
+
+test("signs in and lands on the dashboard", async ({ page }) => {
+  await page.goto("/login");
+  await page.getByPlaceholder("Email address").fill(USER.email);
+  await page.getByPlaceholder("Password").fill(USER.password);
+  await page.getByRole("button", { name: "Sign in" }).click();
+
+  await expect(page).toHaveURL("/");
+  await expect(page.getByRole("heading", { name: "Welcome back, Ada Lovelace" })).toBeVisible();
+  await expect(page.getByRole("heading", { name: "Word of the day" })).toBeVisible();
+});
+
+test("signs in and returns to the requested page", async ({ page }) => {
+  await signIn(page);
+  await expect(page.getByRole("grid", { name: "Words" })).toBeVisible();
+});
+
+test("shows an error for a wrong password", async ({ page }) => {
+  await page.goto("/login");
+  await page.getByPlaceholder("Email address").fill(USER.email);
+  await page.getByPlaceholder("Password").fill("not-the-password");
+  await page.getByRole("button", { name: "Sign in" }).click();
+
+  await expect(page.getByText("Invalid email or password")).toBeVisible();
+  await expect(page).toHaveURL(/\/login/);
+});
+
+test("sends signed-out visitors to the login page and back", async ({ page }) => {
+  await page.goto("/dictionary/history");
+  await expect(page).toHaveURL(/\/login\?returnTo=%2Fdictionary%2Fhistory/);
+
+  await page.getByPlaceholder("Email address").fill(USER.email);
+  await page.getByPlaceholder("Password").fill(USER.password);
+  await page.getByRole("button", { name: "Sign in" }).click();
+  await expect(page).toHaveURL("/dictionary/history");
+});
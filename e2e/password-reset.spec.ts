@@ -0,0 +1,35 @@
+import { expect, test } from "@playwright/test";
+import { resetBackend, resetTokensFor, USER } from "./helpers";
+
+test.beforeEach(async ({ request }) => {
+  await resetBackend(request);
+});
+
+test("requests a reset link and signs in with the new password", async ({ page, request }) => {
+  await page.goto("/login");
+  await page.getByRole("link", { name: "Forgot your password?" }).click();
+  await page.getByPlaceholder("Email address").fill(USER.email);
+  await page.getByRole("button", { name: "Send reset link" }).click();
+  await expect(page.getByText(`If an account exists for ${USER.email}`)).toBeVisible();
+
+  const [token] = await resetTokensFor(request, USER.email);
+  await page.goto(`/reset-password?token=${encodeURIComponent(token)}`);
+  await page.getByPlaceholder("New password", { exact: true }).fill("new-password");
+  await page.getByPlaceholder("Confirm new password").fill("new-password");
+  await page.getByRole("button", { name: "Set new password" }).click();
+  await expect(page.getByText("Your password was changed.")).toBeVisible();
+
+  await page.goto("/login");
+  await page.getByPlaceholder("Email address").fill(USER.email);
+  await page.getByPlaceholder("Password").fill("new-password");
+  await page.getByRole("button", { name: "Sign in" }).click();
+  await expect(page).toHaveURL("/");
+});
+
+test("rejects an unknown reset link", async ({ page }) => {
+  await page.goto("/reset-password?token=not-a-token");
+  await page.getByPlaceholder("New password", { exact: true }).fill("new-password");
+  await page.getByPlaceholder("Confirm new password").fill("new-password");
+  await page.getByRole("button", { name: "Set new password" }).click();
+  await expect(page.getByText("This reset link is invalid or has expired.")).toBeVisible();
+});
@@ -0,0 +1,27 @@
+import { expect, test } from "@playwright/test";
+import { expireTokens, resetBackend, setTokenTtl, signIn } from "./helpers";
+
+test.beforeEach(async ({ request }) => {
+  await resetBackend(request);
+});
+
+test("signs out when the backend rejects the token", async ({ page, request }) => {
+  await signIn(page);
+  await expireTokens(request);
+
+  await page.getByRole("tab", { name: "History" }).click();
+
+  await expect(page).toHaveURL(/\/login\?returnTo=%2Fdictionary%2Fhistory/);
+  await expect(page.getByRole("button", { name: "Sign in" })).toBeVisible();
+});
+
+test("signs out when the token expires on the client", async ({ page, request }) => {
+  await setTokenTtl(request, 120);
+  await page.clock.install();
+  await signIn(page);
+
+  // The session ends 30 seconds before the token's expiry
+  await page.clock.fastForward("01:31");
+
+  await expect(page).toHaveURL(/\/login\?returnTo=%2Fdictionary/);
+});
@@ -0,0 +1,26 @@
+import { expect, test } from "@playwright/test";
+import { resetBackend, signIn } from "./helpers";
+
+test.beforeEach(async ({ page, request }) => {
+  await resetBackend(request);
+  await signIn(page);
+});
+
+test("shows a favorite toggled in another tab", async ({ page, context }) => {
+  const otherTab = await context.newPage();
+  await otherTab.goto("/dictionary");
+  const otherToggle = otherTab.getByRole("gridcell", { name: "ability" }).getByRole("button", { name: "Favorite \"ability\"" });
+  await expect(otherToggle).toHaveAttribute("aria-pressed", "false");
+
+  await page.getByRole("gridcell", { name: "ability" }).getByRole("button", { name: "Favorite \"ability\"" }).click();
+  await expect(otherToggle).toHaveAttribute("aria-pressed", "true");
+});
+
+test("signs every tab out together", async ({ page, context }) => {
+  const otherTab = await context.newPage();
+  await otherTab.goto("/dictionary/history");
+  await expect(otherTab.getByRole("tab", { name: "History" })).toBeVisible();
+
+  await page.getByRole("button", { name: "Sign out" }).click();
+  await expect(otherTab).toHaveURL(/\/login\?returnTo=%2Fdictionary%2Fhistory/);
+});
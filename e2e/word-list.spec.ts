@@ -0,0 +1,28 @@
+import { expect, test } from "@playwright/test";
+import { resetBackend, signIn } from "./helpers";
+
+test.beforeEach(async ({ page, request }) => {
+  await resetBackend(request);
+  await signIn(page);
+});
+
+test("loads more words while scrolling", async ({ page }) => {
+  const grid = page.getByRole("grid", { name: "Words" });
+  await expect(grid.getByRole("gridcell", { name: "abandon" })).toBeVisible();
+  await expect(grid).toHaveAttribute("aria-rowcount", "-1");
+
+  // The fixtures hold 120 words; keep scrolling until the backend reports the end
+  const scroller = grid.locator("..");
+  await expect(async () => {
+    await scroller.evaluate(el => el.scrollTo(0, el.scrollHeight));
+    await expect(page.getByText("No more words")).toBeVisible({ timeout: 1_000 });
+  }).toPass();
+  await expect(grid.getByRole("gridcell", { name: "world" })).toBeVisible();
+  await expect(grid).toHaveAttribute("aria-rowcount", "40");
+});
+
+test("opens a word from the grid", async ({ page }) => {
+  await page.getByRole("gridcell", { name: "abandon" }).click();
+  await expect(page.getByRole("heading", { name: "abandon" })).toBeVisible();
+  await expect(page.getByText("A sample definition of \"abandon\".")).toBeVisible();
+});
@@ -0,0 +1,300 @@
+import type { DictionaryLanguage, FavoriteWord, HistoryWord } from "../src/app/api/types";
+import { FAVORITES, HISTORY, USERS, WORDS, wordDetail, type FixtureUser } from "./fixtures";
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  authorization: string | null;
+  body: unknown;
+};
+
+export type MockResponse = {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+export type MockBackendOptions = {
+  /** Lifetime of issued tokens; e2e tests shorten it to exercise session expiry. */
+  tokenTtlSeconds?: number;
+};
+
+type UserData = {
+  favorites: Required<Pick<FavoriteWord, "word" | "added" | "language" | "tags">>[];
+  history: (HistoryWord & { language: DictionaryLanguage })[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+// Failed sign-ins per email before the backend answers 429 for a while
+const MAX_FAILED_SIGNINS = 5;
+const SIGNIN_LOCKOUT_SECONDS = 30;
+const LANGUAGES: DictionaryLanguage[] = ["en", "es", "pt"];
+
+const json = (status: number, body?: unknown): MockResponse => ({ status, body });
+const error = (status: number, message: string | string[]) => json(status, { message, statusCode: status });
+
+function base64Url(value: object) {
+  return btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function daysAgo(days: number, hour: number) {
+  const date = new Date(Date.now() - days * DAY_MS);
+  date.setHours(hour, 0, 0, 0);
+  return date.toISOString();
+}
+
+function paginate<T>(items: T[], page: number, limit: number) {
+  const totalPages = Math.max(1, Math.ceil(items.length / limit));
+  return {
+    results: items.slice((page - 1) * limit, page * limit),
+    totalDocs: items.length,
+    page,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+  };
+}
+
+function positiveInt(value: string | null, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function isLanguage(value: string | null | undefined): value is DictionaryLanguage {
+  return LANGUAGES.includes(value as DictionaryLanguage);
+}
+
+function seedUserData(): UserData {
+  return {
+    favorites: FAVORITES.map((fav) => ({ word: fav.word, language: fav.language, added: daysAgo(fav.daysAgo, 12), tags: fav.tags ?? [] })),
+    history: HISTORY.map((entry) => ({ word: entry.word, language: entry.language, added: daysAgo(entry.daysAgo, entry.hour) }))
+      .sort((a, b) => b.added.localeCompare(a.added)),
+  };
+}
+
+/**
+ * In-memory implementation of the dictionary backend API. It is shared by the MSW
+ * handlers used in component tests and by the standalone server the e2e tests run.
+ */
+export function createMockBackend({ tokenTtlSeconds = DEFAULT_TOKEN_TTL_SECONDS }: MockBackendOptions = {}) {
+  let users: FixtureUser[] = [];
+  let data = new Map<string, UserData>();
+  let tokens = new Map<string, { userId: string; exp: number }>();
+  let ttlSeconds = tokenTtlSeconds;
+  let failedSignins = new Map<string, { count: number; lockedUntil: number }>();
+  let resetTokens = new Map<string, string>();
+  let issuedResetTokens = 0;
+
+  const reset = () => {
+    users = USERS.map((user) => ({ ...user }));
+    data = new Map(users.map((user) => [user.id, seedUserData()]));
+    tokens = new Map();
+    ttlSeconds = tokenTtlSeconds;
+    failedSignins = new Map();
+    resetTokens = new Map();
+    issuedResetTokens = 0;
+  };
+
+  const issueToken = (user: FixtureUser) => {
+    const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const token = `${base64Url({ alg: "none", typ: "JWT" })}.${base64Url({ sub: user.id, email: user.email, exp })}.mock`;
+    tokens.set(token, { userId: user.id, exp });
+    return { token, user: { id: user.id, email: user.email, name: user.name } };
+  };
+
+  const authenticate = (req: MockRequest) => {
+    const token = req.authorization?.replace(/^Bearer /, "");
+    const session = token ? tokens.get(token) : undefined;
+    if (!session || session.exp * 1000 <= Date.now()) return null;
+    return data.get(session.userId) ?? null;
+  };
+
+  const signin = (body: { email?: string; password?: string }) => {
+    const email = body.email ?? "";
+    const failed = failedSignins.get(email);
+    if (failed && failed.lockedUntil > Date.now()) {
+      const retryAfter = Math.ceil((failed.lockedUntil - Date.now()) / 1000);
+      return { ...error(429, "Too many sign-in attempts"), headers: { "Retry-After": String(retryAfter) } };
+    }
+    const user = users.find((u) => u.email === email);
+    if (!user || user.password !== body.password) {
+      const count = (failed?.count ?? 0) + 1;
+      const lockedUntil = count >= MAX_FAILED_SIGNINS ? Date.now() + SIGNIN_LOCKOUT_SECONDS * 1000 : 0;
+      failedSignins.set(email, { count: lockedUntil ? 0 : count, lockedUntil });
+      return error(401, "Invalid credentials");
+    }
+    failedSignins.delete(email);
+    return json(200, issueToken(user));
+  };
+
+  const signup = (body: { name?: string; email?: string; password?: string }) => {
+    const problems: string[] = [];
+    if (!body.name?.trim()) problems.push("name should not be empty");
+    if (!body.email?.includes("@")) problems.push("email must be an email");
+    if (!body.password || body.password.length < 6) problems.push("password must be longer than or equal to 6 characters");
+    if (problems.length > 0) return error(422, problems);
+    if (users.some((u) => u.email === body.email)) return error(409, "Email already registered");
+    const user = { id: `user-${users.length + 1}`, name: body.name!, email: body.email!, password: body.password! };
+    users.push(user);
+    data.set(user.id, { favorites: [], history: [] });
+    return json(201, issueToken(user));
+  };
+
+  const requestPasswordReset = (body: { email?: string }) => {
+    if (!body.email?.includes("@")) return error(422, "email must be an email");
+    const user = users.find((u) => u.email === body.email);
+    // Answers the same for unknown emails so the endpoint cannot be used to find accounts
+    if (user) resetTokens.set(`reset-${user.id}-${++issuedResetTokens}`, user.id);
+    return json(202);
+  };
+
+  const confirmPasswordReset = (body: { token?: string; password?: string }) => {
+    const userId = body.token ? resetTokens.get(body.token) : undefined;
+    const user = users.find((u) => u.id === userId);
+    if (!user) return error(404, "Reset token not found or expired");
+    if (!body.password || body.password.length < 6) return error(422, "password must be longer than or equal to 6 characters");
+    user.password = body.password;
+    resetTokens.delete(body.token!);
+    failedSignins.delete(user.email);
+    return json(204);
+  };
+
+  const listEntries = (language: DictionaryLanguage, query: URLSearchParams) => {
+    const limit = positiveInt(query.get("limit"), 20);
+    const search = query.get("search")?.toLowerCase();
+    const words = search ? WORDS[language].filter((word) => word.startsWith(search)) : WORDS[language];
+    // Cursors are opaque to the client; here they are just the offset of the next page
+    const cursor = query.get("next");
+    const page = cursor ? Math.floor(Number(atob(cursor)) / limit) + 1 : positiveInt(query.get("page"), 1);
+    const result = paginate(words.map((word) => ({ fields: { word, _id: `${language}-${word}` } })), page, limit);
+    return json(200, { ...result, next: result.hasNext ? btoa(String(page * limit)) : null, previous: null });
+  };
+
+  const entryDetail = (req: MockRequest, language: DictionaryLanguage, word: string) => {
+    const detail = wordDetail(word, language);
+    if (!detail) return error(404, "Word not found");
+    // `record=false` serves the detail without counting it as a lookup
+    if (req.query.get("record") !== "false") {
+      authenticate(req)?.history.unshift({ word, language, added: new Date().toISOString() });
+    }
+    return json(200, { results: [detail] });
+  };
+
+  const toggleFavorite = (user: UserData, language: DictionaryLanguage, word: string, action: string) => {
+    const index = user.favorites.findIndex((fav) => fav.word === word && fav.language === language);
+    if (action === "favorite") {
+      if (!wordDetail(word, language)) return error(404, "Word not found");
+      if (index >= 0) return error(409, "Word already in favorites");
+      user.favorites.push({ word, language, added: new Date().toISOString(), tags: [] });
+    } else {
+      if (index < 0) return error(404, "Word not in favorites");
+      user.favorites.splice(index, 1);
+    }
+    return json(204);
+  };
+
+  const listFavorites = (user: UserData, query: URLSearchParams) => {
+    const language = query.get("language");
+    const search = query.get("search")?.toLowerCase();
+    const tag = query.get("tag");
+    const direction = query.get("order") === "asc" ? 1 : -1;
+    const byWord = query.get("sort") === "word";
+    const matching = user.favorites
+      .filter((fav) => !isLanguage(language) || fav.language === language)
+      .filter((fav) => !search || fav.word.toLowerCase().includes(search))
+      .filter((fav) => !tag || fav.tags.includes(tag))
+      .sort((a, b) => direction * (byWord ? a.word.localeCompare(b.word) : a.added.localeCompare(b.added)));
+    return json(200, paginate(matching, positiveInt(query.get("page"), 1), positiveInt(query.get("limit"), 20)));
+  };
+
+  const retagFavorites = (user: UserData, body: { language?: string; words?: string[]; tags?: string[] }) => {
+    if (!isLanguage(body.language) || !Array.isArray(body.words) || !Array.isArray(body.tags)) {
+      return error(422, "language, words and tags are required");
+    }
+    for (const fav of user.favorites) {
+      if (fav.language === body.language && body.words.includes(fav.word)) fav.tags = body.tags;
+    }
+    return json(204);
+  };
+
+  const listHistory = (user: UserData, query: URLSearchParams) => {
+    const language = query.get("language");
+    const from = query.get("from");
+    const to = query.get("to");
+    const matching = user.history
+      .filter((entry) => !isLanguage(language) || entry.language === language)
+      .filter((entry) => (!from || entry.added >= from) && (!to || entry.added <= to));
+    return json(200, paginate(matching, positiveInt(query.get("page"), 1), positiveInt(query.get("limit"), 10)));
+  };
+
+  const deleteHistoryEntry = (user: UserData, word: string, query: URLSearchParams) => {
+    const index = user.history.findIndex(
+      (entry) => entry.word === word && entry.language === (query.get("language") ?? "en") && entry.added === query.get("added")
+    );
+    if (index < 0) return error(404, "History entry not found");
+    user.history.splice(index, 1);
+    return json(204);
+  };
+
+  const handle = (req: MockRequest): MockResponse => {
+    const { method, path, query } = req;
+    const body = (req.body ?? {}) as Record<string, never>;
+
+    if (method === "POST" && path === "/auth/signin") return signin(body);
+    if (method === "POST" && path === "/auth/signup") return signup(body);
+    if (method === "POST" && path === "/auth/password-reset") return requestPasswordReset(body);
+    if (method === "POST" && path === "/auth/password-reset/confirm") return confirmPasswordReset(body);
+    // Telemetry is accepted and discarded
+    if (method === "POST" && path === "/telemetry/events") return json(202);
+
+    const entries = path.match(/^\/dictionary\/entries\/([^/]+)(?:\/([^/]+))?(?:\/(favorite|unfavorite))?$/);
+    if (entries) {
+      const [, language, encodedWord, action] = entries;
+      if (!isLanguage(language)) return error(404, "Unknown dictionary");
+      if (!encodedWord && method === "GET") return listEntries(language, query);
+      const word = decodeURIComponent(encodedWord ?? "");
+      if (!action && method === "GET") return entryDetail(req, language, word);
+      if (action && method === "PATCH") {
+        const user = authenticate(req);
+        return user ? toggleFavorite(user, language, word, action) : error(401, "Unauthorized");
+      }
+    }
+
+    if (path.startsWith("/user/me/")) {
+      const user = authenticate(req);
+      if (!user) return error(401, "Unauthorized");
+      if (method === "GET" && path === "/user/me/favorites") return listFavorites(user, query);
+      if (method === "PATCH" && path === "/user/me/favorites/tags") return retagFavorites(user, body);
+      if (method === "GET" && path === "/user/me/history") return listHistory(user, query);
+      if (method === "DELETE" && path === "/user/me/history") {
+        user.history = [];
+        return json(204);
+      }
+      const historyEntry = path.match(/^\/user\/me\/history\/([^/]+)$/);
+      if (method === "DELETE" && historyEntry) return deleteHistoryEntry(user, decodeURIComponent(historyEntry[1]), query);
+    }
+
+    return error(404, `Cannot ${method} ${path}`);
+  };
+
+  reset();
+
+  return {
+    handle,
+    reset,
+    /** Invalidates every issued token, as if the sessions had expired on the server. */
+    expireTokens: () => tokens.clear(),
+    /** Reset tokens issued for `email`, oldest first, standing in for the emails that carry them. */
+    resetTokensFor: (email: string) => {
+      const user = users.find((u) => u.email === email);
+      return [...resetTokens].filter(([, userId]) => userId === user?.id).map(([token]) => token);
+    },
+    setTokenTtl: (seconds: number) => {
+      ttlSeconds = seconds;
+    },
+  };
+}
+
+export type MockBackend = ReturnType<typeof createMockBackend>;
@@ -0,0 +1,129 @@
+import type { DictionaryLanguage, WordDetail } from "../src/app/api/types";
+
+export type FixtureUser = {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+};
+
+export const USERS: FixtureUser[] = [
+  { id: "user-1", name: "Ada Lovelace", email: "ada@example.com", password: "password123" },
+  { id: "user-2", name: "Alan Turing", email: "alan@example.com", password: "password123" },
+];
+
+// Enough English words for several pages of the virtualized grid
+const ENGLISH_WORDS = [
+  "abandon", "ability", "absence", "academy", "account", "achieve", "acquire", "address", "advance", "adventure",
+  "advice", "afford", "agenda", "airport", "alarm", "album", "alcohol", "alert", "alive", "allow",
+  "almost", "alone", "amazing", "ancient", "anger", "angle", "animal", "answer", "anxiety", "apple",
+  "arrive", "article", "artist", "aspect", "assume", "attack", "attempt", "attitude", "audience", "author",
+  "average", "balance", "barrier", "battle", "beauty", "bedroom", "belief", "benefit", "bicycle", "biology",
+  "blanket", "border", "bottle", "bottom", "branch", "bread", "breath", "bridge", "bright", "brother",
+  "budget", "butter", "cabinet", "camera", "campaign", "candle", "capital", "captain", "career", "castle",
+  "celebrate", "century", "chamber", "channel", "chapter", "charity", "cheese", "chicken", "circle", "climate",
+  "cloud", "coffee", "collect", "comfort", "courage", "culture", "danger", "dream", "eager", "earth",
+  "effort", "energy", "escape", "forest", "garden", "hello", "honest", "island", "journey", "kitchen",
+  "language", "library", "memory", "mountain", "nature", "ocean", "planet", "question", "river", "serendipity",
+  "silence", "spring", "thunder", "travel", "universe", "valley", "wander", "window", "winter", "world",
+];
+
+export const WORDS: Record<DictionaryLanguage, string[]> = {
+  en: ENGLISH_WORDS,
+  es: ["agua", "casa", "cielo", "hola", "libro", "mundo", "noche", "perro", "sol", "tiempo"],
+  pt: ["água", "casa", "céu", "livro", "mundo", "noite", "olá", "saudade", "sol", "tempo"],
+};
+
+const DETAILS: Record<string, WordDetail> = {
+  hello: {
+    word: "hello",
+    phonetics: [{ text: "/həˈləʊ/", audio: "https://example.com/audio/hello.mp3" }],
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        definitions: [{ definition: "\"Hello!\" or an equivalent greeting.", synonyms: ["greeting"] }],
+      },
+      {
+        partOfSpeech: "interjection",
+        definitions: [
+          { definition: "A greeting used when answering the telephone.", example: "Hello? How may I help you?" },
+          { definition: "A greeting said when meeting someone or acknowledging someone's arrival.", example: "Hello, everyone." },
+        ],
+        synonyms: ["hi", "greetings"],
+        antonyms: ["bye", "goodbye"],
+      },
+    ],
+  },
+  world: {
+    word: "world",
+    phonetics: [{ text: "/wɜːld/" }],
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        definitions: [
+          { definition: "The Earth, including all of its inhabitants.", example: "She travelled around the world." },
+          { definition: "A great amount.", example: "That nap did me a world of good." },
+        ],
+        synonyms: ["globe", "earth"],
+      },
+    ],
+  },
+  serendipity: {
+    word: "serendipity",
+    phonetics: [{ text: "/ˌsɛɹ.ən.ˈdɪp.ɪ.ti/" }],
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        definitions: [
+          {
+            definition: "An unsought, unintended, and unexpected, but fortunate, discovery or learning experience.",
+            example: "Meeting her at the bookshop was pure serendipity.",
+          },
+        ],
+        synonyms: ["chance", "fluke"],
+        antonyms: ["misfortune"],
+      },
+    ],
+  },
+  courage: {
+    word: "courage",
+    phonetics: [{ text: "/ˈkʌɹɪdʒ/" }],
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        definitions: [{ definition: "The ability to do things which one finds frightening.", example: "It took courage to speak up." }],
+        synonyms: ["bravery", "valor"],
+        antonyms: ["cowardice", "fear"],
+      },
+    ],
+  },
+};
+
+/** Detail for a word in the fixtures; words without a hand-written entry get a generic one. */
+export function wordDetail(word: string, language: DictionaryLanguage): WordDetail | null {
+  if (!WORDS[language].includes(word)) return null;
+  if (language === "en" && DETAILS[word]) return DETAILS[word];
+  return {
+    word,
+    phonetics: [{ text: `/${word}/` }],
+    meanings: [{ partOfSpeech: "noun", definitions: [{ definition: `A sample definition of "${word}".` }] }],
+  };
+}
+
+export type FixtureHistoryEntry = { word: string; language: DictionaryLanguage; daysAgo: number; hour: number };
+
+/** Lookups every user starts with, spread over the last few days. */
+export const HISTORY: FixtureHistoryEntry[] = [
+  { word: "hello", language: "en", daysAgo: 0, hour: 9 },
+  { word: "world", language: "en", daysAgo: 0, hour: 8 },
+  { word: "hello", language: "en", daysAgo: 0, hour: 7 },
+  { word: "courage", language: "en", daysAgo: 1, hour: 21 },
+  { word: "serendipity", language: "en", daysAgo: 1, hour: 20 },
+  { word: "ocean", language: "en", daysAgo: 3, hour: 12 },
+  { word: "hola", language: "es", daysAgo: 2, hour: 10 },
+];
+
+export const FAVORITES: { word: string; language: DictionaryLanguage; daysAgo: number; tags?: string[] }[] = [
+  { word: "serendipity", language: "en", daysAgo: 2, tags: ["GRE"] },
+  { word: "courage", language: "en", daysAgo: 5, tags: ["GRE", "work"] },
+];
@@ -0,0 +1,27 @@
+import { http, HttpResponse } from "msw";
+import type { MockBackend } from "./backend";
+
+export const MOCK_BACKEND_URL = "http://backend.test";
+
+async function readJson(request: Request) {
+  const text = await request.text();
+  return text ? JSON.parse(text) : undefined;
+}
+
+/** MSW handlers that answer every backend request from the in-memory mock backend. */
+export function createHandlers(backend: MockBackend, baseUrl = MOCK_BACKEND_URL) {
+  return [
+    http.all(`${baseUrl}/*`, async ({ request }) => {
+      const url = new URL(request.url);
+      const res = backend.handle({
+        method: request.method,
+        path: url.pathname,
+        query: url.searchParams,
+        authorization: request.headers.get("authorization"),
+        body: await readJson(request),
+      });
+      const init = { status: res.status, headers: res.headers };
+      return res.body === undefined ? new HttpResponse(null, init) : HttpResponse.json(res.body, init);
+    }),
+  ];
+}
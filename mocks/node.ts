@@ -0,0 +1,8 @@
+import { setupServer } from "msw/node";
+import { createMockBackend } from "./backend";
+import { createHandlers } from "./handlers";
+
+/** Mock backend shared by the component tests; it is reset to the fixtures before each test. */
+export const mockBackend = createMockBackend();
+
+export const server = setupServer(...createHandlers(mockBackend));
@@ -0,0 +1,63 @@
+import { createServer, type IncomingMessage } from "node:http";
+import { createMockBackend } from "./backend";
+
+const port = Number(process.env.MOCK_BACKEND_PORT ?? 4000);
+const backend = createMockBackend({ tokenTtlSeconds: Number(process.env.MOCK_TOKEN_TTL_SECONDS ?? 60 * 60) });
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type, If-None-Match",
+  "Access-Control-Expose-Headers": "Retry-After",
+};
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+// Test-only controls, so e2e tests can start from the fixtures, simulate expired sessions
+// and read the reset links that would have been emailed
+function handleControl(path: string, body: { tokenTtlSeconds?: number; email?: string } | undefined): { result?: unknown } | null {
+  if (path === "/__mock/reset") backend.reset();
+  else if (path === "/__mock/expire-tokens") backend.expireTokens();
+  else if (path === "/__mock/token-ttl" && body?.tokenTtlSeconds) backend.setTokenTtl(body.tokenTtlSeconds);
+  else if (path === "/__mock/reset-tokens" && body?.email) return { result: backend.resetTokensFor(body.email) };
+  else return null;
+  return {};
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+  try {
+    const body = await readBody(req);
+    const control = req.method === "POST" ? handleControl(url.pathname, body) : null;
+    if (control) {
+      if (control.result === undefined) res.writeHead(204, CORS_HEADERS).end();
+      else res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "application/json" }).end(JSON.stringify(control.result));
+      return;
+    }
+    const result = backend.handle({
+      method: req.method ?? "GET",
+      path: url.pathname,
+      query: url.searchParams,
+      authorization: req.headers.authorization ?? null,
+      body,
+    });
+    if (result.body === undefined) {
+      res.writeHead(result.status, { ...CORS_HEADERS, ...result.headers }).end();
+    } else {
+      res.writeHead(result.status, { ...CORS_HEADERS, ...result.headers, "Content-Type": "application/json" }).end(JSON.stringify(result.body));
+    }
+  } catch {
+    res.writeHead(400, { ...CORS_HEADERS, "Content-Type": "application/json" }).end(JSON.stringify({ message: "Invalid JSON body" }));
+  }
+}).listen(port, () => {
+  console.log(`Mock backend listening on http://localhost:${port}`);
+});
@@ -1,4 +1,7 @@
 import type { NextConfig } from "next";
+// Importing the config validates the settings, so `next dev`, `next build` and `next start` stop on invalid ones.
+// A missing backend URL is not an error here: it may be set at runtime, and /health reports it when it is not.
+import "./src/app/config";
 
 const nextConfig: NextConfig = {
   /* config options here */
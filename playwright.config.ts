@@ -0,0 +1,34 @@
+import { defineConfig, devices } from "@playwright/test";
+
+const MOCK_BACKEND_PORT = 4000;
+const APP_PORT = 3100;
+
+export const MOCK_BACKEND_URL = `http://localhost:${MOCK_BACKEND_PORT}`;
+
+export default defineConfig({
+  testDir: "./e2e",
+  // Every test resets the one shared mock backend, so they cannot run side by side
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? "list" : "html",
+  use: {
+    baseURL: `http://localhost:${APP_PORT}`,
+    trace: "retain-on-failure",
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: [
+    {
+      command: "npm run mock:server",
+      url: `${MOCK_BACKEND_URL}/dictionary/entries/en`,
+      env: { MOCK_BACKEND_PORT: String(MOCK_BACKEND_PORT) },
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: `npx next dev --port ${APP_PORT}`,
+      url: `http://localhost:${APP_PORT}/login`,
+      env: { NEXT_PUBLIC_BACKEND_URL: MOCK_BACKEND_URL },
+      reuseExistingServer: !process.env.CI,
+      timeout: 180_000,
+    },
+  ],
+});
@@ -1,37 +1,62 @@
+import { request } from './http';
+
+export const MIN_PASSWORD_LENGTH = 6;
+
 interface SignInCredentials {
   email: string;
   password: string;
 }
 
-interface AuthResponse {
-  id: string;
-  user?: {
-    id: string;
-    email: string;
-    name: string;
-  };
+interface SignUpPayload {
+  name: string;
+  email: string;
+  password: string;
+}
+
+interface PasswordResetRequest {
+  email: string;
+}
+
+interface PasswordResetConfirmation {
+  /** Token from the link in the reset email. */
+  token: string;
+  password: string;
 }
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL;
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
 
-if (!BACKEND_URL) {
-  throw new Error('NEXT_PUBLIC_BACKEND_URL environment variable is not defined');
+export interface AuthResponse {
+  token: string;
+  user: AuthUser;
 }
 
 export const authApi = {
-  signin: async (credentials: SignInCredentials): Promise<AuthResponse> => {
-    const response = await fetch(`${BACKEND_URL}/auth/signin`, {
+  signin: (credentials: SignInCredentials): Promise<AuthResponse> =>
+    request<AuthResponse>('/auth/signin', {
+      method: 'POST',
+      body: credentials,
+    }),
+
+  signup: (payload: SignUpPayload): Promise<AuthResponse> =>
+    request<AuthResponse>('/auth/signup', {
+      method: 'POST',
+      body: payload,
+    }),
+
+  /** Asks the backend to email a reset link; it answers the same way whether or not the account exists. */
+  requestPasswordReset: (payload: PasswordResetRequest): Promise<void> =>
+    request<void>('/auth/password-reset', {
+      method: 'POST',
+      body: payload,
+    }),
+
+  resetPassword: (payload: PasswordResetConfirmation): Promise<void> =>
+    request<void>('/auth/password-reset/confirm', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(credentials),
-    });
-
-    if (!response.ok) {
-      throw new Error('Authentication failed');
-    }
-
-    return response.json();
-  },
-}; 
\ No newline at end of file
+      body: payload,
+    }),
+};
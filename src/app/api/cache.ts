@@ -0,0 +1,148 @@
+import { reportError } from "../telemetry/telemetry";
+import { emitResponseEvent } from "./debug-events";
+import { isApiError, send, type RequestOptions } from "./http";
+import { idbClear, idbGet, idbPut, offlineUser, RESPONSES_STORE } from "./offline-db";
+
+export type CachePolicy = {
+  /** How long an entry is served without contacting the backend. */
+  ttlMs: number;
+  /** How long past `ttlMs` an entry may still be served while it revalidates in the background. */
+  staleMs: number;
+};
+
+type CacheEntry = {
+  data: unknown;
+  etag: string | null;
+  storedAt: number;
+};
+
+type CachedRequestOptions = Pick<RequestOptions, "token" | "query"> & {
+  policy: CachePolicy;
+};
+
+const entries = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<unknown>>();
+// Bumped whenever a key is invalidated, so a request already in flight for it cannot store its stale answer
+const generations = new Map<string, number>();
+
+function generationOf(key: string) {
+  return generations.get(key) ?? 0;
+}
+
+function bumpGeneration(key: string) {
+  generations.set(key, generationOf(key) + 1);
+}
+
+function requestKey(path: string, options: CachedRequestOptions) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  return `${path}?${params.toString()}`;
+}
+
+function cacheKey(path: string, options: CachedRequestOptions) {
+  // The token is part of the key so one user's favorites never leak into another session
+  return `${requestKey(path, options)}#${options.token ?? ""}`;
+}
+
+// Persisted copies outlive the session, so they are kept apart per user rather than per token
+function persistedKey(path: string, options: CachedRequestOptions) {
+  return `${offlineUser() ?? ""}|${requestKey(path, options)}`;
+}
+
+function isOfflineError(err: unknown) {
+  return isApiError(err, "network") || isApiError(err, "timeout");
+}
+
+function revalidate<T>(key: string, path: string, options: CachedRequestOptions): Promise<T> {
+  const pending = inflight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const cached = entries.get(key);
+  const generation = generationOf(key);
+  const isCurrent = () => generationOf(key) === generation;
+  const promise = send<T>(path, {
+    token: options.token,
+    query: options.query,
+    headers: cached?.etag ? { "If-None-Match": cached.etag } : undefined,
+  })
+    .then(res => {
+      if (res.status === 304 && cached) {
+        if (isCurrent()) entries.set(key, { ...cached, storedAt: Date.now() });
+        return cached.data as T;
+      }
+      // The caller still gets the answer it asked for; it is just not kept for the next one
+      if (!isCurrent()) return res.data;
+      entries.set(key, { data: res.data, etag: res.headers.get("etag"), storedAt: Date.now() });
+      // Persisted copies are only read back when the backend cannot be reached
+      idbPut(RESPONSES_STORE, res.data, persistedKey(path, options)).catch((idbErr) => reportError(idbErr, "offline-cache", { path }));
+      return res.data;
+    })
+    .catch(async (err) => {
+      if (!isOfflineError(err)) throw err;
+      const persisted = await idbGet<T>(RESPONSES_STORE, persistedKey(path, options)).catch((idbErr) => {
+        reportError(idbErr, "offline-cache", { path });
+        return undefined;
+      });
+      if (persisted === undefined) throw err;
+      return persisted;
+    })
+    .finally(() => {
+      // A newer request may have taken the slot after this one was invalidated
+      if (inflight.get(key) === promise) inflight.delete(key);
+    });
+  inflight.set(key, promise);
+  return promise;
+}
+
+/**
+ * GET request backed by an in-memory cache. Fresh entries are returned without a
+ * network call, stale ones are returned immediately and refreshed in the background,
+ * and refreshes send the stored ETag so the backend can answer with a 304.
+ */
+export async function cachedRequest<T>(path: string, options: CachedRequestOptions): Promise<T> {
+  const key = cacheKey(path, options);
+  const cached = entries.get(key);
+  const age = cached ? Date.now() - cached.storedAt : Infinity;
+  const { ttlMs, staleMs } = options.policy;
+
+  if (cached && age < ttlMs + staleMs) {
+    const isFresh = age < ttlMs;
+    emitResponseEvent({
+      method: "GET",
+      url: path,
+      status: 200,
+      durationMs: 0,
+      serverCache: null,
+      serverTime: null,
+      clientCache: isFresh ? "hit" : "stale",
+    });
+    if (!isFresh) {
+      // A failed background refresh keeps the stale entry; the next read retries it
+      revalidate<T>(key, path, options).catch(() => undefined);
+    }
+    return cached.data as T;
+  }
+  return revalidate<T>(key, path, options);
+}
+
+/** Drops every cached entry whose path starts with `pathPrefix`. */
+export function invalidateCache(pathPrefix: string) {
+  for (const key of entries.keys()) {
+    if (key.startsWith(pathPrefix)) entries.delete(key);
+  }
+  for (const key of inflight.keys()) {
+    if (!key.startsWith(pathPrefix)) continue;
+    bumpGeneration(key);
+    inflight.delete(key);
+  }
+}
+
+/** Drops every cached response, including the copies persisted for offline use. */
+export function clearCache() {
+  entries.clear();
+  for (const key of inflight.keys()) bumpGeneration(key);
+  inflight.clear();
+  idbClear(RESPONSES_STORE).catch((err) => reportError(err, "offline-cache"));
+}
@@ -0,0 +1,26 @@
+export type ClientCacheStatus = "hit" | "stale" | "miss";
+
+export type ResponseEvent = {
+  method: string;
+  url: string;
+  status: number;
+  durationMs: number;
+  serverCache: string | null;
+  serverTime: string | null;
+  clientCache?: ClientCacheStatus;
+};
+
+type Listener = (event: ResponseEvent) => void;
+
+const listeners = new Set<Listener>();
+
+export function emitResponseEvent(event: ResponseEvent) {
+  listeners.forEach(listener => listener(event));
+}
+
+export function subscribeToResponseEvents(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
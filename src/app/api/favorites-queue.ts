@@ -0,0 +1,87 @@
+import { reportError } from "../telemetry/telemetry";
+import { FAVORITE_QUEUE_STORE, idbDelete, idbGetAll, idbPut, offlineUser } from "./offline-db";
+import type { DictionaryLanguage, FavoriteWord } from "./types";
+
+export type FavoriteAction = "favorite" | "unfavorite";
+
+export type QueuedFavoriteChange = {
+  id?: number;
+  word: string;
+  action: FavoriteAction;
+  language?: DictionaryLanguage;
+  queuedAt: string;
+  /** User who made the change; only that user's session replays it. */
+  userId?: string;
+};
+
+type Listener = (pending: number) => void;
+
+const listeners = new Set<Listener>();
+
+async function notify() {
+  const pending = (await readFavoriteQueue()).length;
+  listeners.forEach((listener) => listener(pending));
+}
+
+/** Listens for changes to the number of queued favorite changes. */
+export function subscribeToFavoriteQueue(listener: Listener) {
+  listeners.add(listener);
+  readFavoriteQueue().then((queue) => listener(queue.length), () => listener(0));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Changes the signed-in user has queued, in the order they were made. */
+export async function readFavoriteQueue(): Promise<QueuedFavoriteChange[]> {
+  const userId = offlineUser();
+  if (!userId) return [];
+  try {
+    const queue = await idbGetAll<QueuedFavoriteChange>(FAVORITE_QUEUE_STORE);
+    return queue.filter((change) => change.userId === userId).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  } catch (err) {
+    reportError(err, "favorite-queue");
+    return [];
+  }
+}
+
+export async function queueFavoriteChange(word: string, action: FavoriteAction, language: DictionaryLanguage) {
+  const change: QueuedFavoriteChange = { word, action, language, queuedAt: new Date().toISOString(), userId: offlineUser() ?? undefined };
+  await idbPut(FAVORITE_QUEUE_STORE, change);
+  await notify();
+}
+
+export async function removeQueuedFavoriteChange(id: number) {
+  await idbDelete(FAVORITE_QUEUE_STORE, id);
+  await notify();
+}
+
+/** Drops the changes the signed-in user has queued; other users' changes stay queued. */
+export async function clearFavoriteQueue() {
+  const queue = await readFavoriteQueue();
+  await Promise.all(queue.map((change) => idbDelete(FAVORITE_QUEUE_STORE, change.id!))).catch((err) =>
+    reportError(err, "favorite-queue")
+  );
+  await notify();
+}
+
+/** Tells the listeners how many changes the signed-in user has queued, e.g. after another user signed in. */
+export async function refreshFavoriteQueue() {
+  await notify();
+}
+
+/** Applies queued changes on top of a favorites list so offline edits show up before they are synced. */
+export function applyQueuedFavoriteChanges(favorites: FavoriteWord[], queue: QueuedFavoriteChange[]): FavoriteWord[] {
+  // Untagged entries predate language support and are English
+  const keyOf = (entry: { word: string; language?: DictionaryLanguage }) => `${entry.language ?? "en"}:${entry.word}`;
+  const byKey = new Map(favorites.map((fav) => [keyOf(fav), fav]));
+  for (const change of queue) {
+    const key = keyOf(change);
+    if (change.action === "favorite") {
+      if (!byKey.has(key)) byKey.set(key, { word: change.word, added: change.queuedAt, language: change.language });
+    } else {
+      byKey.delete(key);
+    }
+  }
+  return [...byKey.values()];
+}
@@ -0,0 +1,217 @@
+import { config, getBackendUrl } from "../config";
+import { track } from "../telemetry/telemetry";
+import { emitResponseEvent } from "./debug-events";
+
+export type ApiErrorKind =
+  | "unauthorized"
+  | "not_found"
+  | "conflict"
+  | "validation"
+  | "rate_limited"
+  | "server"
+  | "network"
+  | "timeout"
+  | "unknown";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  /** How long the server asked the client to wait before trying again, from `Retry-After`. */
+  readonly retryAfterMs: number | null;
+
+  constructor(kind: ApiErrorKind, message: string, status: number | null = null, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable() {
+    return this.kind === "server" || this.kind === "network" || this.kind === "timeout";
+  }
+}
+
+export function isApiError(err: unknown, kind?: ApiErrorKind): err is ApiError {
+  return err instanceof ApiError && (kind === undefined || err.kind === kind);
+}
+
+function kindForStatus(status: number): ApiErrorKind {
+  if (status === 401) return "unauthorized";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 422) return "validation";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server";
+  return "unknown";
+}
+
+export type RequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  token?: string | null;
+  headers?: Record<string, string>;
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export type ApiResponse<T> = {
+  data: T;
+  status: number;
+  headers: Headers;
+};
+
+let unauthorizedHandler: (() => void) | null = null;
+
+/** Registers the callback run when an authenticated request comes back with a 401. */
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
+const RETRY_BASE_DELAY_MS = 300;
+
+function buildUrl(path: string, query?: RequestOptions["query"]) {
+  const baseUrl = getBackendUrl();
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const search = params.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ""}`;
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function errorMessage(body: unknown, fallback: string) {
+  if (body && typeof body === "object" && "message" in body) {
+    const { message } = body as { message: unknown };
+    if (typeof message === "string") return message;
+    if (Array.isArray(message)) return message.join(", ");
+  }
+  return fallback;
+}
+
+/** Reads a `Retry-After` header, given either in seconds or as an HTTP date, as a delay in milliseconds. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+async function attempt<T>(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<ApiResponse<T>> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", forwardAbort, { once: true });
+  const startedAt = performance.now();
+
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    const body = await readBody(res);
+    emitResponseEvent({
+      method: init.method ?? "GET",
+      url,
+      status: res.status,
+      durationMs: Math.round(performance.now() - startedAt),
+      serverCache: res.headers.get("x-cache"),
+      serverTime: res.headers.get("x-response-time"),
+    });
+    // 304 only comes back for conditional requests; the caller keeps its cached body
+    if (!res.ok && res.status !== 304) {
+      throw new ApiError(
+        kindForStatus(res.status),
+        errorMessage(body, res.statusText || `Request failed with status ${res.status}`),
+        res.status,
+        parseRetryAfter(res.headers.get("retry-after"))
+      );
+    }
+    return { data: body as T, status: res.status, headers: res.headers };
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    // Caller aborts are passed through untouched so callers can tell them apart from failures
+    if (signal?.aborted) throw err;
+    if (timedOut) throw new ApiError("timeout", `Request timed out after ${timeoutMs}ms`);
+    throw new ApiError("network", err instanceof Error ? err.message : "Network request failed");
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+/**
+ * Sends a JSON request to the backend and resolves with the parsed body and the
+ * response headers. 5xx, network and timeout failures are retried with exponential
+ * backoff; every other failure is raised immediately as an `ApiError` and reported
+ * to telemetry.
+ */
+export async function send<T>(path: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+  const { method = "GET", token, body, query, signal, timeoutMs = config.request.timeoutMs } = options;
+  // Sign-in and other POSTs are not idempotent, so they are only retried on request
+  const retries = options.retries ?? (method === "POST" ? 0 : config.request.retries);
+
+  const headers: Record<string, string> = { ...options.headers };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const init: RequestInit = {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  };
+  const url = buildUrl(path, query);
+  const startedAt = performance.now();
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt<T>(url, init, timeoutMs, signal);
+    } catch (err) {
+      if (token && isApiError(err, "unauthorized")) unauthorizedHandler?.();
+      if (!isApiError(err) || !err.retryable || retry >= retries) {
+        // Caller aborts are not failures and are not ApiErrors
+        if (isApiError(err)) {
+          track({
+            type: "api-error",
+            method,
+            endpoint: path,
+            status: err.status,
+            kind: err.kind,
+            durationMs: Math.round(performance.now() - startedAt),
+            attempts: retry + 1,
+          });
+        }
+        throw err;
+      }
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** retry, signal);
+    }
+  }
+}
+
+/** Same as `send`, resolving with the parsed body only. */
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  return (await send<T>(path, options)).data;
+}
@@ -0,0 +1,75 @@
+const DB_NAME = "dictionary-offline";
+const DB_VERSION = 1;
+
+export const RESPONSES_STORE = "responses";
+export const FAVORITE_QUEUE_STORE = "favorite-queue";
+
+type StoreName = typeof RESPONSES_STORE | typeof FAVORITE_QUEUE_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Everything stored here belongs to whoever was signed in when it was written
+let currentUser: string | null = null;
+
+/** Sets the user whose offline data is read and written from now on; null while signed out. */
+export function setOfflineUser(userId: string | null) {
+  currentUser = userId;
+}
+
+export function offlineUser() {
+  return currentUser;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+        db.createObjectStore(RESPONSES_STORE);
+      }
+      if (!db.objectStoreNames.contains(FAVORITE_QUEUE_STORE)) {
+        db.createObjectStore(FAVORITE_QUEUE_STORE, { keyPath: "id", autoIncrement: true });
+      }
+    };
+    dbPromise = promisify(request).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+}
+
+export function idbGet<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T | undefined>(name, "readonly", (store) => store.get(key));
+}
+
+export function idbGetAll<T>(name: StoreName): Promise<T[]> {
+  return withStore<T[]>(name, "readonly", (store) => store.getAll());
+}
+
+export function idbPut(name: StoreName, value: unknown, key?: IDBValidKey): Promise<IDBValidKey> {
+  return withStore(name, "readwrite", (store) => store.put(value, key));
+}
+
+export function idbDelete(name: StoreName, key: IDBValidKey): Promise<undefined> {
+  return withStore(name, "readwrite", (store) => store.delete(key));
+}
+
+export function idbClear(name: StoreName): Promise<undefined> {
+  return withStore(name, "readwrite", (store) => store.clear());
+}
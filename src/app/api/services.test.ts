@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockBackend } from "../../../mocks/node";
+import { signIn } from "../../test-utils";
+import { readFavoriteQueue, removeQueuedFavoriteChange, type QueuedFavoriteChange } from "./favorites-queue";
+import { replayFavoriteQueue } from "./services";
+
+// jsdom has no IndexedDB; the queue is replaced with one held in memory
+vi.mock("./favorites-queue", async (importActual) => ({
+  ...(await importActual<typeof import("./favorites-queue")>()),
+  readFavoriteQueue: vi.fn(),
+  removeQueuedFavoriteChange: vi.fn(),
+}));
+
+function favoritesOnServer(token: string) {
+  const response = mockBackend.handle({
+    method: "GET",
+    path: "/user/me/favorites",
+    query: new URLSearchParams({ page: "1", limit: "100" }),
+    authorization: `Bearer ${token}`,
+    body: null,
+  });
+  return (response.body as { results: { word: string }[] }).results.map((fav) => fav.word);
+}
+
+describe("replayFavoriteQueue", () => {
+  beforeEach(() => {
+    vi.mocked(removeQueuedFavoriteChange).mockReset();
+  });
+
+  it("drops a change the server refuses and goes on with the rest", async () => {
+    const { token } = await signIn();
+    const queuedAt = new Date().toISOString();
+    const queue: QueuedFavoriteChange[] = [
+      { id: 1, word: "qwertyuiop", action: "favorite", language: "en", queuedAt },
+      { id: 2, word: "abandon", action: "favorite", language: "en", queuedAt },
+    ];
+    vi.mocked(readFavoriteQueue).mockResolvedValue(queue);
+
+    await replayFavoriteQueue(token);
+
+    expect(vi.mocked(removeQueuedFavoriteChange).mock.calls).toEqual([[1], [2]]);
+    expect(favoritesOnServer(token)).toContain("abandon");
+  });
+});
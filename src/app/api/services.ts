@@ -1,65 +1,288 @@
-type DictionaryEntry = {
-  fields: {
-    word: string;
-    _id: string;
-  };
-};
-
-export async function fetchWords(page: number): Promise<string[]> {
-  const res1 = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/dictionary/entries/en?limit=5&page=${page}`);
-  if (!res1.ok) throw new Error("Failed to fetch words");
-  const data1 = await res1.json();
-  const res2 = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/dictionary/entries/en?limit=5&page=${page + 1}`);
-  if (!res2.ok) throw new Error("Failed to fetch words");
-  const data2 = await res2.json();
-  return [
-    ...data1.results.map((e: DictionaryEntry) => e.fields.word),
-    ...data2.results.map((e: DictionaryEntry) => e.fields.word),
-  ];
-}
-
-export async function fetchWordDetail(word: string, token: string) {
-  const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/dictionary/entries/en/${encodeURIComponent(word)}`, {
-    headers: { Authorization: `Bearer ${token}` },
+import { cachedRequest, invalidateCache, type CachePolicy } from "./cache";
+import {
+  applyQueuedFavoriteChanges,
+  queueFavoriteChange,
+  readFavoriteQueue,
+  removeQueuedFavoriteChange,
+  type FavoriteAction,
+} from "./favorites-queue";
+import { isApiError, request, send } from "./http";
+import type {
+  DictionaryEntriesApiResponse,
+  DictionaryLanguage,
+  FavoritesApiResponse,
+  FavoritesPageApiResponse,
+  FavoritesQuery,
+  FavoriteWord,
+  HistoryApiResponse,
+  HistoryRange,
+  HistoryWord,
+  WordDetailApiResponse,
+  WordsPage,
+  WordsPageRequest,
+} from "./types";
+
+const MINUTE = 60_000;
+
+const CACHE_POLICIES = {
+  words: { ttlMs: 10 * MINUTE, staleMs: 60 * MINUTE },
+  wordDetail: { ttlMs: 60 * MINUTE, staleMs: 24 * 60 * MINUTE },
+  favorites: { ttlMs: 1 * MINUTE, staleMs: 10 * MINUTE },
+} satisfies Record<string, CachePolicy>;
+
+const FAVORITES_PATH = "/user/me/favorites";
+const HISTORY_PATH = "/user/me/history";
+// The favorites endpoint always paginates; whole lists are read in pages this large
+const FAVORITES_BATCH_SIZE = 100;
+// Stop after this many pages if the backend never reports the end
+const MAX_FAVORITES_PAGES = 50;
+
+export const DICTIONARY_LANGUAGES: DictionaryLanguage[] = ["en", "es", "pt"];
+export const DEFAULT_DICTIONARY_LANGUAGE: DictionaryLanguage = "en";
+
+export function isDictionaryLanguage(value: string | null | undefined): value is DictionaryLanguage {
+  return DICTIONARY_LANGUAGES.includes(value as DictionaryLanguage);
+}
+
+/** Language of a favorite or history entry, treating untagged entries as English. */
+export function entryLanguage(entry: { language?: DictionaryLanguage }): DictionaryLanguage {
+  return entry.language ?? DEFAULT_DICTIONARY_LANGUAGE;
+}
+
+function entriesPath(language: DictionaryLanguage, word?: string) {
+  return `/dictionary/entries/${language}${word === undefined ? "" : `/${encodeURIComponent(word)}`}`;
+}
+
+export async function fetchWords(request: WordsPageRequest, limit: number, language: DictionaryLanguage): Promise<WordsPage> {
+  const query = "cursor" in request ? { limit, next: request.cursor } : { limit, page: request.page };
+  const data = await cachedRequest<DictionaryEntriesApiResponse>(entriesPath(language), { query, policy: CACHE_POLICIES.words });
+  let next: WordsPageRequest | null = null;
+  if (data.hasNext && data.next) {
+    next = { cursor: data.next };
+  } else if (data.hasNext) {
+    next = { page: (data.page ?? ("page" in request ? request.page : 1)) + 1 };
+  }
+  return { words: data.results.map((e) => e.fields.word), next };
+}
+
+/**
+ * The entry of the `language` dictionary at the index `pick` chooses from the number
+ * of entries, such as the word of the day; null when the dictionary is empty.
+ */
+export async function fetchPickedWord(language: DictionaryLanguage, pick: (totalDocs: number) => number): Promise<string | null> {
+  // The first page tells how many entries there are; the chosen entry is then fetched as a page of one
+  const { totalDocs } = await cachedRequest<DictionaryEntriesApiResponse>(entriesPath(language), {
+    query: { limit: 1, page: 1 },
+    policy: CACHE_POLICIES.words,
   });
-  if (!res.ok) throw new Error("Failed to fetch word detail");
-  return res.json();
+  if (!totalDocs) return null;
+  const { words } = await fetchWords({ page: pick(totalDocs) + 1 }, 1, language);
+  return words[0] ?? null;
 }
 
-export async function fetchFavorites(token: string) {
-  const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/user/me/favorites`, {
-    headers: { Authorization: `Bearer ${token}` },
+/**
+ * The backend records a lookup in the user's history for every detail it serves;
+ * `recordLookup: false` asks it not to, for details shown without the user asking.
+ */
+export async function fetchWordDetail(
+  word: string,
+  token: string,
+  language: DictionaryLanguage,
+  { recordLookup = true } = {}
+): Promise<WordDetailApiResponse> {
+  return cachedRequest<WordDetailApiResponse>(entriesPath(language, word), {
+    token,
+    query: recordLookup ? undefined : { record: "false" },
+    policy: CACHE_POLICIES.wordDetail,
   });
-  if (!res.ok) throw new Error("Failed to fetch favorites");
-  return res.json();
 }
 
-export async function addFavorite(word: string, token: string) {
-  await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/dictionary/entries/en/${encodeURIComponent(word)}/favorite`, {
+async function readAllFavorites(loadPage: (page: number) => Promise<FavoritesPageApiResponse>): Promise<FavoriteWord[]> {
+  const favorites: FavoriteWord[] = [];
+  for (let page = 1; page <= MAX_FAVORITES_PAGES; page++) {
+    const data = await loadPage(page);
+    favorites.push(...data.results);
+    if (!data.hasNext) break;
+  }
+  return favorites;
+}
+
+/**
+ * Every favorite in every dictionary, read page by page from the same paginated
+ * endpoint the favorites list uses, with queued offline changes applied on top.
+ */
+export async function fetchFavorites(token: string): Promise<FavoritesApiResponse> {
+  const favorites = await readAllFavorites((page) =>
+    cachedRequest<FavoritesPageApiResponse>(FAVORITES_PATH, {
+      token,
+      query: { page, limit: FAVORITES_BATCH_SIZE },
+      policy: CACHE_POLICIES.favorites,
+    })
+  );
+  const queue = await readFavoriteQueue();
+  return { results: applyQueuedFavoriteChanges(favorites, queue) };
+}
+
+function paginateFavorites(favorites: FavoriteWord[], query: FavoritesQuery, limit: number): FavoritesPageApiResponse {
+  const search = query.search?.toLowerCase();
+  const direction = query.order === "asc" ? 1 : -1;
+  const matching = favorites
+    .filter((fav) => entryLanguage(fav) === query.language)
+    .filter((fav) => !search || fav.word.toLowerCase().includes(search))
+    .filter((fav) => !query.tag || fav.tags?.includes(query.tag))
+    .sort((a, b) => direction * (query.sort === "word" ? a.word.localeCompare(b.word) : a.added.localeCompare(b.added)));
+  const totalPages = Math.max(1, Math.ceil(matching.length / limit));
+  const page = Math.min(query.page, totalPages);
+  return {
+    results: matching.slice((page - 1) * limit, page * limit),
+    totalDocs: matching.length,
+    page,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+  };
+}
+
+/** Forgets the cached favorites, e.g. after another tab changed them. */
+export function invalidateFavorites() {
+  invalidateCache(FAVORITES_PATH);
+}
+
+/**
+ * One page of favorites, sorted and filtered by the server. While the backend is
+ * unreachable the page is built from the cached favorites instead, including
+ * changes still waiting in the offline queue.
+ */
+export async function fetchFavoritesPage(token: string, query: FavoritesQuery, limit: number): Promise<FavoritesPageApiResponse> {
+  try {
+    return await request<FavoritesPageApiResponse>(FAVORITES_PATH, { token, query: { ...query, limit } });
+  } catch (err) {
+    if (!isApiError(err, "network") && !isApiError(err, "timeout")) throw err;
+    const all = await fetchFavorites(token);
+    return paginateFavorites(all.results, query, limit);
+  }
+}
+
+/** Replaces the tags of several favorites in one request. */
+export async function setFavoriteTags(token: string, language: DictionaryLanguage, words: string[], tags: string[]): Promise<void> {
+  try {
+    await request(`${FAVORITES_PATH}/tags`, { method: "PATCH", token, body: { language, words, tags } });
+  } finally {
+    invalidateCache(FAVORITES_PATH);
+  }
+}
+
+async function patchFavorite(word: string, action: FavoriteAction, token: string, language: DictionaryLanguage): Promise<void> {
+  await request(`${entriesPath(language, word)}/${action}`, {
     method: "PATCH",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify({ word }),
+    token,
+    body: { word, language },
   });
 }
 
-export async function removeFavorite(word: string, token: string) {
-  await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/dictionary/entries/en/${encodeURIComponent(word)}/unfavorite`, {
-    method: "PATCH",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify({ word }),
+// Changes made while the backend is unreachable are queued and replayed by `replayFavoriteQueue`
+async function patchFavoriteOrQueue(word: string, action: FavoriteAction, token: string, language: DictionaryLanguage): Promise<void> {
+  const offline = typeof navigator !== "undefined" && !navigator.onLine;
+  try {
+    if (offline) {
+      await queueFavoriteChange(word, action, language);
+    } else {
+      await patchFavorite(word, action, token, language);
+    }
+  } catch (err) {
+    if (!isApiError(err, "network") && !isApiError(err, "timeout")) throw err;
+    await queueFavoriteChange(word, action, language);
+  }
+  invalidateCache(FAVORITES_PATH);
+}
+
+export async function addFavorite(word: string, token: string, language: DictionaryLanguage): Promise<void> {
+  await patchFavoriteOrQueue(word, "favorite", token, language);
+}
+
+export async function removeFavorite(word: string, token: string, language: DictionaryLanguage): Promise<void> {
+  await patchFavoriteOrQueue(word, "unfavorite", token, language);
+}
+
+// A 4xx the same request would get again; 401 and 429 are about the session or timing, not the change
+function isRefusedForGood(err: unknown) {
+  return isApiError(err) && err.status !== null && err.status >= 400 && err.status < 500 && err.status !== 401 && err.status !== 429;
+}
+
+/**
+ * Sends queued favorite changes in the order they were made. Each change is checked
+ * against the server's current favorites first, so changes the server already
+ * reflects are dropped instead of replayed. Changes the server refuses for good, such
+ * as a word it no longer has, are dropped too; any other failure stops the replay and
+ * keeps the remaining changes queued for the next one.
+ */
+export async function replayFavoriteQueue(token: string): Promise<void> {
+  const queue = await readFavoriteQueue();
+  if (queue.length === 0) return;
+
+  const server = await readAllFavorites((page) =>
+    request<FavoritesPageApiResponse>(FAVORITES_PATH, { token, query: { page, limit: FAVORITES_BATCH_SIZE } })
+  );
+  const serverWords = new Set(server.map((fav) => `${entryLanguage(fav)}:${fav.word}`));
+  try {
+    for (const change of queue) {
+      const key = `${entryLanguage(change)}:${change.word}`;
+      const wantsFavorite = change.action === "favorite";
+      if (serverWords.has(key) !== wantsFavorite) {
+        try {
+          await patchFavorite(change.word, change.action, token, entryLanguage(change));
+        } catch (err) {
+          // A 409 means the change is already applied; other refusals were reported by the API client
+          // and would fail the same way on every later replay
+          if (!isRefusedForGood(err)) throw err;
+        }
+        if (wantsFavorite) serverWords.add(key);
+        else serverWords.delete(key);
+      }
+      await removeQueuedFavoriteChange(change.id!);
+    }
+  } finally {
+    invalidateCache(FAVORITES_PATH);
+  }
+}
+
+export async function fetchHistory(
+  token: string,
+  page: number,
+  limit: number,
+  language: DictionaryLanguage,
+  range: HistoryRange = {}
+): Promise<HistoryApiResponse> {
+  return request<HistoryApiResponse>(HISTORY_PATH, { token, query: { page, limit, language, ...range } });
+}
+
+/** Removes a single lookup, identified by its word, language and timestamp, from the history. */
+export async function deleteHistoryEntry(token: string, entry: HistoryWord): Promise<void> {
+  await request(`${HISTORY_PATH}/${encodeURIComponent(entry.word)}`, {
+    method: "DELETE",
+    token,
+    query: { language: entryLanguage(entry), added: entry.added },
   });
 }
 
-export async function fetchHistory(token: string, page: number) {
-  const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/user/me/history?page=${page}&limit=10`, {
-    headers: { Authorization: `Bearer ${token}` },
+export async function clearHistory(token: string): Promise<void> {
+  await request(HISTORY_PATH, { method: "DELETE", token });
+}
+
+export async function searchWords(prefix: string, limit: number, language: DictionaryLanguage, signal?: AbortSignal): Promise<string[]> {
+  const data = await request<DictionaryEntriesApiResponse>(entriesPath(language), {
+    query: { search: prefix, limit },
+    signal,
   });
-  if (!res.ok) throw new Error("Failed to fetch history");
-  return res.json();
+  return data.results.map((e) => e.fields.word);
+}
+
+/**
+ * Asks the backend for the smallest page of words, bypassing the cache and retries,
+ * and resolves with the response status and round trip time.
+ */
+export async function pingBackend(): Promise<{ status: number; durationMs: number }> {
+  const startedAt = performance.now();
+  const { status } = await send(entriesPath(DEFAULT_DICTIONARY_LANGUAGE), { query: { limit: 1 }, retries: 0 });
+  return { status, durationMs: Math.round(performance.now() - startedAt) };
 }
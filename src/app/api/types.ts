@@ -0,0 +1,94 @@
+export type DictionaryLanguage = "en" | "es" | "pt";
+
+export type DictionaryEntry = {
+  fields: {
+    word: string;
+    _id: string;
+  };
+};
+
+export type DictionaryEntriesApiResponse = {
+  results: DictionaryEntry[];
+  totalDocs: number;
+  page?: number;
+  totalPages?: number;
+  /** Cursors returned when the request was made with cursor pagination. */
+  next?: string | null;
+  previous?: string | null;
+  hasNext: boolean;
+  hasPrev: boolean;
+};
+
+/** Where the next page of the word list starts: a page number or a backend cursor. */
+export type WordsPageRequest = { page: number } | { cursor: string };
+
+export type WordsPage = {
+  words: string[];
+  next: WordsPageRequest | null;
+};
+
+export type WordDetail = {
+  word: string;
+  phonetics: { text?: string; audio?: string }[];
+  meanings: {
+    partOfSpeech: string;
+    definitions: { definition: string; example?: string; synonyms?: string[]; antonyms?: string[] }[];
+    synonyms?: string[];
+    antonyms?: string[];
+  }[];
+};
+
+export type WordDetailApiResponse = {
+  results: WordDetail[];
+};
+
+export type FavoriteWord = {
+  word: string;
+  added: string;
+  /** Dictionary the word belongs to; entries saved before languages were tracked omit it. */
+  language?: DictionaryLanguage;
+  /** User-defined collections, such as "GRE" or "work". */
+  tags?: string[];
+};
+
+export type FavoritesApiResponse = {
+  results: FavoriteWord[];
+};
+
+export type FavoritesSortField = "word" | "added";
+export type SortOrder = "asc" | "desc";
+
+export type FavoritesQuery = {
+  page: number;
+  language: DictionaryLanguage;
+  sort: FavoritesSortField;
+  order: SortOrder;
+  search?: string;
+  tag?: string;
+};
+
+export type HistoryWord = {
+  word: string;
+  added: string;
+  language?: DictionaryLanguage;
+};
+
+/** Inclusive bounds on when history entries were added, as ISO timestamps. */
+export type HistoryRange = {
+  from?: string;
+  to?: string;
+};
+
+/** Page of results with the paging metadata the user endpoints return. */
+export type PaginatedApiResponse<T> = {
+  results: T[];
+  totalDocs: number;
+  page: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+};
+
+export type HistoryApiResponse = PaginatedApiResponse<HistoryWord>;
+
+export type FavoritesPageApiResponse = PaginatedApiResponse<FavoriteWord>;
@@ -0,0 +1,90 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { isSessionValid, useAuthStore } from "./auth-store";
+
+// Sign out slightly before the token actually expires so no request goes out with it
+const EXPIRY_SKEW_MS = 30_000;
+// setTimeout fires immediately for delays that overflow a 32-bit integer
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** Becomes true once the persisted session has been read from storage on the client. */
+export function useHasHydrated() {
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    setHydrated(useAuthStore.persist.hasHydrated());
+    return useAuthStore.persist.onFinishHydration(() => setHydrated(true));
+  }, []);
+
+  return hydrated;
+}
+
+function useSessionValid() {
+  const hydrated = useHasHydrated();
+  const token = useAuthStore((state) => state.token);
+  const expiresAt = useAuthStore((state) => state.expiresAt);
+  const clearSession = useAuthStore((state) => state.clearSession);
+  const valid = hydrated && isSessionValid({ token, expiresAt }, Date.now() + EXPIRY_SKEW_MS);
+
+  useEffect(() => {
+    if (!hydrated || !token) return;
+    if (!valid) {
+      clearSession();
+      return;
+    }
+    const delay = expiresAt === null ? Infinity : expiresAt - EXPIRY_SKEW_MS - Date.now();
+    if (delay > MAX_TIMER_DELAY_MS) return;
+    const timer = setTimeout(clearSession, delay);
+    return () => clearTimeout(timer);
+  }, [hydrated, token, expiresAt, valid, clearSession]);
+
+  return { hydrated, valid };
+}
+
+/** Only accepts same-origin paths so `returnTo` cannot be used as an open redirect. */
+export function safeReturnTo(returnTo: string | null, fallback = "/") {
+  return returnTo && returnTo.startsWith("/") && !returnTo.startsWith("//") ? returnTo : fallback;
+}
+
+/** Renders its children only for a valid session; otherwise sends the user to `/login`. */
+export function AuthGuard({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { hydrated, valid } = useSessionValid();
+
+  useEffect(() => {
+    if (hydrated && !valid) {
+      const search = window.location.search;
+      router.replace(`/login?returnTo=${encodeURIComponent(pathname + search)}`);
+    }
+  }, [hydrated, valid, pathname, router]);
+
+  if (!hydrated || !valid) return null;
+  return <>{children}</>;
+}
+
+function GuestRedirect({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { hydrated, valid } = useSessionValid();
+
+  useEffect(() => {
+    if (hydrated && valid) {
+      router.replace(safeReturnTo(searchParams.get("returnTo")));
+    }
+  }, [hydrated, valid, router, searchParams]);
+
+  if (!hydrated || valid) return null;
+  return <>{children}</>;
+}
+
+/** Renders its children only without a valid session; signed-in users go to `returnTo`. */
+export function GuestGuard({ children }: { children: React.ReactNode }) {
+  return (
+    <Suspense fallback={null}>
+      <GuestRedirect>{children}</GuestRedirect>
+    </Suspense>
+  );
+}
@@ -1,22 +1,117 @@
 import { create } from "zustand";
-import { persist } from "zustand/middleware";
+import { createJSONStorage, persist, type StateStorage } from "zustand/middleware";
+import type { AuthResponse, AuthUser } from "./api/auth";
+import { clearCache } from "./api/cache";
+import { setUnauthorizedHandler } from "./api/http";
+import { setOfflineUser } from "./api/offline-db";
+import { postTabMessage, subscribeToTabMessages } from "./tab-sync";
 
 type AuthState = {
   token: string | null;
-  setToken: (token: string | null) => void;
-  clearToken: () => void;
+  user: AuthUser | null;
+  /** Expiry of `token` in epoch milliseconds, read from its `exp` claim. */
+  expiresAt: number | null;
+  /** Stores the session; with `remember` off it only lasts until the browser tab is closed. */
+  setSession: (session: AuthResponse, remember?: boolean) => void;
+  clearSession: () => void;
 };
 
+/** Reads the `exp` claim of a JWT without verifying it; returns null for tokens without one. */
+export function decodeTokenExpiry(token: string): number | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const { exp } = JSON.parse(json) as { exp?: unknown };
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage the next write goes to; chosen at sign-in and recovered from wherever the session was found
+let rememberSession = true;
+
+/**
+ * Keeps the session in localStorage when the user asked to be remembered and in
+ * sessionStorage otherwise, removing any copy left in the other one.
+ */
+function rememberAwareStorage(local: Storage, session: Storage): StateStorage {
+  return {
+    getItem: (name) => {
+      const value = session.getItem(name);
+      if (value !== null) {
+        rememberSession = false;
+        return value;
+      }
+      return local.getItem(name);
+    },
+    setItem: (name, value) => {
+      (rememberSession ? local : session).setItem(name, value);
+      (rememberSession ? session : local).removeItem(name);
+    },
+    removeItem: (name) => {
+      local.removeItem(name);
+      session.removeItem(name);
+    },
+  };
+}
+
+export function isSessionValid(state: Pick<AuthState, "token" | "expiresAt">, now = Date.now()) {
+  return !!state.token && (state.expiresAt === null || state.expiresAt > now);
+}
+
+// Shared by the actions and by changes coming from other tabs, which must not be sent back out
+function storeSession({ token, user }: AuthResponse, remember: boolean) {
+  rememberSession = remember;
+  useAuthStore.setState({ token, user, expiresAt: decodeTokenExpiry(token) });
+}
+
+function endSession() {
+  useAuthStore.setState({ token: null, user: null, expiresAt: null });
+  clearCache();
+  useAuthStore.persist.clearStorage();
+}
+
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set) => ({
+    (_set, get) => ({
       token: null,
-      setToken: (token) => set({ token }),
-      clearToken: () => set({ token: null }),
+      user: null,
+      expiresAt: null,
+      setSession: (session, remember = true) => {
+        storeSession(session, remember);
+        postTabMessage({ type: "session", session, remember });
+      },
+      clearSession: () => {
+        const signedIn = !!get().token;
+        endSession();
+        if (signedIn) postTabMessage({ type: "session", session: null });
+      },
     }),
     {
-      name: "auth-storage", 
-      partialize: (state) => ({ token: state.token }),
+      name: "auth-storage",
+      storage: createJSONStorage(() => rememberAwareStorage(localStorage, sessionStorage)),
+      partialize: (state) => ({ token: state.token, user: state.user, expiresAt: state.expiresAt }),
     }
   )
-); 
\ No newline at end of file
+);
+
+setUnauthorizedHandler(() => {
+  if (useAuthStore.getState().token) useAuthStore.getState().clearSession();
+});
+
+// Offline copies and queued changes are kept per user, so the next user to sign in never sees them
+setOfflineUser(useAuthStore.getState().user?.id ?? null);
+useAuthStore.subscribe((state) => setOfflineUser(state.user?.id ?? null));
+
+// Signing in or out in another tab does the same here, so no tab keeps using a dead token
+subscribeToTabMessages((message) => {
+  if (message.type !== "session") return;
+  const { token } = useAuthStore.getState();
+  if (!message.session) {
+    if (token) endSession();
+  } else if (message.session.token !== token) {
+    storeSession(message.session, message.remember ?? true);
+  }
+});
@@ -0,0 +1,38 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useEffect } from "react";
+
+// Gives the page time to load its data before it is audited
+const AUDIT_DELAY_MS = 1500;
+
+/**
+ * Runs axe against the rendered page after every navigation and logs the
+ * accessibility violations it finds to the console. Only mounted in development;
+ * the component tests fail on violations through `expectNoAxeViolations`.
+ */
+export default function AxeChecker() {
+  const pathname = usePathname();
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { default: axe } = await import("axe-core");
+      if (cancelled) return;
+      const results = await axe.run(document, { resultTypes: ["violations"] });
+      if (cancelled || results.violations.length === 0) return;
+      console.groupCollapsed(`axe: ${results.violations.length} accessibility violations on ${pathname}`);
+      for (const violation of results.violations) {
+        console.warn(`[${violation.impact}] ${violation.id}: ${violation.help} (${violation.helpUrl})`);
+        violation.nodes.forEach(node => console.warn("  ", node.target.join(" "), node.failureSummary));
+      }
+      console.groupEnd();
+    }, AUDIT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pathname]);
+
+  return null;
+}
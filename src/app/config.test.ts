@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { ConfigError, parseConfig, parseRuntimeConfig } from "./config";
+
+function problemsOf(run: () => unknown) {
+  try {
+    run();
+  } catch (err) {
+    if (err instanceof ConfigError) return err.problems;
+    throw err;
+  }
+  return [];
+}
+
+describe("parseConfig", () => {
+  it("falls back to the defaults when nothing is set", () => {
+    const config = parseConfig({});
+    expect(config.backendUrl).toBeNull();
+    expect(config.pageSizes).toEqual({ words: 30, favorites: 20, history: 10, suggestions: 10 });
+    expect(config.request).toEqual({ timeoutMs: 10_000, retries: 2 });
+    expect(config.features).toEqual({ study: true, transfer: true, debugOverlay: false });
+    expect(config.telemetry.sink).toBe("none");
+  });
+
+  it("reads valid settings and drops the trailing slash of URLs", () => {
+    const config = parseConfig({
+      NEXT_PUBLIC_BACKEND_URL: " https://api.example.com/ ",
+      NEXT_PUBLIC_WORDS_PAGE_SIZE: "200",
+      NEXT_PUBLIC_REQUEST_RETRIES: "0",
+      NEXT_PUBLIC_FEATURE_STUDY: "0",
+      NEXT_PUBLIC_FEATURE_TRANSFER: "FALSE",
+      NEXT_PUBLIC_TELEMETRY_SINK: "HTTP",
+    });
+    expect(config.backendUrl).toBe("https://api.example.com");
+    expect(config.pageSizes.words).toBe(200);
+    expect(config.request.retries).toBe(0);
+    expect(config.features.study).toBe(false);
+    expect(config.features.transfer).toBe(false);
+    expect(config.telemetry.sink).toBe("http");
+  });
+
+  it("rejects URLs that are relative or not http", () => {
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_BACKEND_URL: "/api" }))).toEqual([
+      'NEXT_PUBLIC_BACKEND_URL must be an absolute URL, got "/api"',
+    ]);
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_TELEMETRY_URL: "ftp://example.com" }))).toEqual([
+      'NEXT_PUBLIC_TELEMETRY_URL must be an http or https URL, got "ftp://example.com"',
+    ]);
+  });
+
+  it("rejects numbers that are out of range or not whole", () => {
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_WORDS_PAGE_SIZE: "0" }))).toEqual([
+      'NEXT_PUBLIC_WORDS_PAGE_SIZE must be a whole number from 1 to 200, got "0"',
+    ]);
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_REQUEST_TIMEOUT_MS: "120001" }))).toHaveLength(1);
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_REQUEST_RETRIES: "1.5" }))).toHaveLength(1);
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_SUGGESTIONS_LIMIT: "ten" }))).toHaveLength(1);
+  });
+
+  it("rejects flags and choices it does not know", () => {
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_FEATURE_STUDY: "yes" }))).toEqual([
+      'NEXT_PUBLIC_FEATURE_STUDY must be "true" or "false", got "yes"',
+    ]);
+    expect(problemsOf(() => parseConfig({ NEXT_PUBLIC_TELEMETRY_SINK: "file" }))).toEqual([
+      'NEXT_PUBLIC_TELEMETRY_SINK must be one of "console", "http", "none", got "file"',
+    ]);
+  });
+
+  it("reports every invalid setting at once", () => {
+    const problems = problemsOf(() =>
+      parseConfig({
+        NEXT_PUBLIC_BACKEND_URL: "not a url",
+        NEXT_PUBLIC_HISTORY_PAGE_SIZE: "-1",
+        NEXT_PUBLIC_FEATURE_DEBUG_OVERLAY: "maybe",
+      })
+    );
+    expect(problems).toHaveLength(3);
+    expect(problems.map((problem) => problem.split(" ")[0])).toEqual([
+      "NEXT_PUBLIC_BACKEND_URL",
+      "NEXT_PUBLIC_HISTORY_PAGE_SIZE",
+      "NEXT_PUBLIC_FEATURE_DEBUG_OVERLAY",
+    ]);
+  });
+});
+
+describe("parseRuntimeConfig", () => {
+  it("reads the server-side backend URL", () => {
+    expect(parseRuntimeConfig({ BACKEND_URL: "http://backend:3001/" })).toEqual({ backendUrl: "http://backend:3001" });
+    expect(parseRuntimeConfig({})).toEqual({ backendUrl: null });
+  });
+
+  it("rejects an invalid backend URL", () => {
+    expect(() => parseRuntimeConfig({ BACKEND_URL: "backend:3001" })).toThrow(ConfigError);
+    expect(problemsOf(() => parseRuntimeConfig({ BACKEND_URL: "mailto:ops@example.com" }))).toEqual([
+      'BACKEND_URL must be an http or https URL, got "mailto:ops@example.com"',
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+export type FeatureFlags = {
+  /** Study tab with spaced-repetition review of favorites. */
+  study: boolean;
+  /** Import and export of favorites and history. */
+  transfer: boolean;
+  /** Floating panel listing recent requests and cache hits. */
+  debugOverlay: boolean;
+};
+
+export type TelemetrySinkName = "console" | "http" | "none";
+
+export type TelemetryConfig = {
+  /** Where batched events go: the browser console, an HTTP endpoint, or nowhere. */
+  sink: TelemetrySinkName;
+  /** Endpoint of the HTTP sink; `/telemetry/events` on the backend when not set. */
+  endpoint: string | null;
+  batchSize: number;
+  flushIntervalMs: number;
+};
+
+export type AppConfig = {
+  /** Backend URL baked in at build time; `BACKEND_URL` on the server overrides it at runtime. */
+  backendUrl: string | null;
+  pageSizes: {
+    words: number;
+    favorites: number;
+    history: number;
+    suggestions: number;
+  };
+  request: {
+    timeoutMs: number;
+    retries: number;
+  };
+  features: FeatureFlags;
+  telemetry: TelemetryConfig;
+};
+
+export type BackendUrlSource = "runtime" | "build";
+
+/** Settings the server resolves per request and hands to the client through the root layout. */
+export type RuntimeConfig = {
+  backendUrl: string | null;
+};
+
+export const RUNTIME_CONFIG_ELEMENT_ID = "runtime-config";
+
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+function readUrl(env: Env, name: string, problems: string[]) {
+  const value = env[name]?.trim();
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      problems.push(`${name} must be an http or https URL, got "${value}"`);
+      return null;
+    }
+    // Paths are appended as "/dictionary/...", so a trailing slash would double up
+    return value.replace(/\/+$/, "");
+  } catch {
+    problems.push(`${name} must be an absolute URL, got "${value}"`);
+    return null;
+  }
+}
+
+function readInt(env: Env, name: string, fallback: number, { min, max }: { min: number; max: number }, problems: string[]) {
+  const value = env[name]?.trim();
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    problems.push(`${name} must be a whole number from ${min} to ${max}, got "${value}"`);
+    return fallback;
+  }
+  return parsed;
+}
+
+function readFlag(env: Env, name: string, fallback: boolean, problems: string[]) {
+  const value = env[name]?.trim().toLowerCase();
+  if (!value) return fallback;
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  problems.push(`${name} must be "true" or "false", got "${env[name]}"`);
+  return fallback;
+}
+
+function readChoice<T extends string>(env: Env, name: string, choices: readonly T[], fallback: T, problems: string[]): T {
+  const value = env[name]?.trim().toLowerCase();
+  if (!value) return fallback;
+  if (choices.includes(value as T)) return value as T;
+  problems.push(`${name} must be one of ${choices.map((choice) => `"${choice}"`).join(", ")}, got "${env[name]}"`);
+  return fallback;
+}
+
+/** Validates the environment settings, reporting every invalid one at once. */
+export function parseConfig(env: Env): AppConfig {
+  const problems: string[] = [];
+  const config: AppConfig = {
+    backendUrl: readUrl(env, "NEXT_PUBLIC_BACKEND_URL", problems),
+    pageSizes: {
+      words: readInt(env, "NEXT_PUBLIC_WORDS_PAGE_SIZE", 30, { min: 1, max: 200 }, problems),
+      favorites: readInt(env, "NEXT_PUBLIC_FAVORITES_PAGE_SIZE", 20, { min: 1, max: 200 }, problems),
+      history: readInt(env, "NEXT_PUBLIC_HISTORY_PAGE_SIZE", 10, { min: 1, max: 200 }, problems),
+      suggestions: readInt(env, "NEXT_PUBLIC_SUGGESTIONS_LIMIT", 10, { min: 1, max: 50 }, problems),
+    },
+    request: {
+      timeoutMs: readInt(env, "NEXT_PUBLIC_REQUEST_TIMEOUT_MS", 10_000, { min: 100, max: 120_000 }, problems),
+      retries: readInt(env, "NEXT_PUBLIC_REQUEST_RETRIES", 2, { min: 0, max: 10 }, problems),
+    },
+    features: {
+      study: readFlag(env, "NEXT_PUBLIC_FEATURE_STUDY", true, problems),
+      transfer: readFlag(env, "NEXT_PUBLIC_FEATURE_TRANSFER", true, problems),
+      debugOverlay: readFlag(env, "NEXT_PUBLIC_FEATURE_DEBUG_OVERLAY", env.NODE_ENV === "development", problems),
+    },
+    telemetry: {
+      sink: readChoice(env, "NEXT_PUBLIC_TELEMETRY_SINK", ["console", "http", "none"], env.NODE_ENV === "development" ? "console" : "none", problems),
+      endpoint: readUrl(env, "NEXT_PUBLIC_TELEMETRY_URL", problems),
+      batchSize: readInt(env, "NEXT_PUBLIC_TELEMETRY_BATCH_SIZE", 20, { min: 1, max: 100 }, problems),
+      flushIntervalMs: readInt(env, "NEXT_PUBLIC_TELEMETRY_FLUSH_MS", 10_000, { min: 1000, max: 300_000 }, problems),
+    },
+  };
+  if (problems.length > 0) throw new ConfigError(problems);
+  return config;
+}
+
+/** Validates the server-only settings that may change without a rebuild. */
+export function parseRuntimeConfig(env: Env): RuntimeConfig {
+  const problems: string[] = [];
+  const backendUrl = readUrl(env, "BACKEND_URL", problems);
+  if (problems.length > 0) throw new ConfigError(problems);
+  return { backendUrl };
+}
+
+// Next.js only inlines NEXT_PUBLIC_ variables into the client bundle when they are referenced by name
+export const config = parseConfig({
+  NODE_ENV: process.env.NODE_ENV,
+  NEXT_PUBLIC_BACKEND_URL: process.env.NEXT_PUBLIC_BACKEND_URL,
+  NEXT_PUBLIC_WORDS_PAGE_SIZE: process.env.NEXT_PUBLIC_WORDS_PAGE_SIZE,
+  NEXT_PUBLIC_FAVORITES_PAGE_SIZE: process.env.NEXT_PUBLIC_FAVORITES_PAGE_SIZE,
+  NEXT_PUBLIC_HISTORY_PAGE_SIZE: process.env.NEXT_PUBLIC_HISTORY_PAGE_SIZE,
+  NEXT_PUBLIC_SUGGESTIONS_LIMIT: process.env.NEXT_PUBLIC_SUGGESTIONS_LIMIT,
+  NEXT_PUBLIC_REQUEST_TIMEOUT_MS: process.env.NEXT_PUBLIC_REQUEST_TIMEOUT_MS,
+  NEXT_PUBLIC_REQUEST_RETRIES: process.env.NEXT_PUBLIC_REQUEST_RETRIES,
+  NEXT_PUBLIC_FEATURE_STUDY: process.env.NEXT_PUBLIC_FEATURE_STUDY,
+  NEXT_PUBLIC_FEATURE_TRANSFER: process.env.NEXT_PUBLIC_FEATURE_TRANSFER,
+  NEXT_PUBLIC_FEATURE_DEBUG_OVERLAY: process.env.NEXT_PUBLIC_FEATURE_DEBUG_OVERLAY,
+  NEXT_PUBLIC_TELEMETRY_SINK: process.env.NEXT_PUBLIC_TELEMETRY_SINK,
+  NEXT_PUBLIC_TELEMETRY_URL: process.env.NEXT_PUBLIC_TELEMETRY_URL,
+  NEXT_PUBLIC_TELEMETRY_BATCH_SIZE: process.env.NEXT_PUBLIC_TELEMETRY_BATCH_SIZE,
+  NEXT_PUBLIC_TELEMETRY_FLUSH_MS: process.env.NEXT_PUBLIC_TELEMETRY_FLUSH_MS,
+});
+
+let runtimeConfig: RuntimeConfig | null = null;
+
+function readRuntimeConfig(): RuntimeConfig {
+  if (typeof window === "undefined") return parseRuntimeConfig(process.env);
+  if (!runtimeConfig) {
+    const text = document.getElementById(RUNTIME_CONFIG_ELEMENT_ID)?.textContent;
+    runtimeConfig = text ? (JSON.parse(text) as RuntimeConfig) : { backendUrl: null };
+  }
+  return runtimeConfig;
+}
+
+/** The backend URL in effect and where it came from, or null when neither setting is present. */
+export function resolveBackendUrl(): { url: string; source: BackendUrlSource } | null {
+  const runtimeUrl = readRuntimeConfig().backendUrl;
+  if (runtimeUrl) return { url: runtimeUrl, source: "runtime" };
+  return config.backendUrl ? { url: config.backendUrl, source: "build" } : null;
+}
+
+export function getBackendUrl() {
+  const resolved = resolveBackendUrl();
+  if (!resolved) {
+    throw new ConfigError(["No backend URL: set NEXT_PUBLIC_BACKEND_URL at build time or BACKEND_URL on the server"]);
+  }
+  return resolved.url;
+}
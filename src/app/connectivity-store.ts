@@ -0,0 +1,57 @@
+import { create } from "zustand";
+import { refreshFavoriteQueue, subscribeToFavoriteQueue } from "./api/favorites-queue";
+import { isApiError } from "./api/http";
+import { replayFavoriteQueue } from "./api/services";
+import { useAuthStore } from "./auth-store";
+import { useFavoritesStore } from "./favorites-store";
+import { getCurrentLocale, translate } from "./i18n/locales";
+import { useToastStore } from "./toast-store";
+
+type ConnectivityState = {
+  online: boolean;
+  pendingChanges: number;
+  syncing: boolean;
+  syncPendingChanges: () => Promise<void>;
+};
+
+export const useConnectivityStore = create<ConnectivityState>()((set, get) => ({
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  pendingChanges: 0,
+  syncing: false,
+  syncPendingChanges: async () => {
+    const token = useAuthStore.getState().token;
+    if (!token || get().syncing) return;
+    set({ syncing: true });
+    try {
+      await replayFavoriteQueue(token);
+    } catch (err) {
+      // Unreachable backend: the changes stay queued until the next "online" event
+      if (!isApiError(err, "network") && !isApiError(err, "timeout")) {
+        useToastStore.getState().showToast(translate(getCurrentLocale(), "favorites.syncFailed"), "error");
+      }
+    } finally {
+      set({ syncing: false });
+      // Reload so the list reflects the server once the queue has been applied
+      useFavoritesStore.getState().loadFavorites();
+    }
+  },
+}));
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => {
+    useConnectivityStore.setState({ online: true });
+    useConnectivityStore.getState().syncPendingChanges();
+  });
+  window.addEventListener("offline", () => useConnectivityStore.setState({ online: false }));
+
+  subscribeToFavoriteQueue((pendingChanges) => useConnectivityStore.setState({ pendingChanges }));
+
+  // Queued changes belong to the user who made them: they wait for that user's next session
+  useAuthStore.subscribe((state, prev) => {
+    if (state.user?.id === prev.user?.id) return;
+    refreshFavoriteQueue().then(() => {
+      const { pendingChanges, syncPendingChanges } = useConnectivityStore.getState();
+      if (state.token && pendingChanges > 0) syncPendingChanges();
+    });
+  });
+}
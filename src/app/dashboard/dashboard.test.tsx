@@ -0,0 +1,50 @@
+import { screen, within } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockBackend } from "../../../mocks/node";
+import { expectNoAxeViolations, renderWithProviders, signIn } from "../../test-utils";
+import Dashboard from "./dashboard";
+
+vi.mock("next/navigation", () => ({
+  usePathname: () => "/",
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn() }),
+  useSearchParams: () => new URLSearchParams(),
+}));
+// The header needs the theme provider and is not what these tests are about
+vi.mock("../header-bar", () => ({ default: () => null }));
+
+function lookupsOnServer(token: string) {
+  const response = mockBackend.handle({
+    method: "GET",
+    path: "/user/me/history",
+    query: new URLSearchParams({ limit: "100" }),
+    authorization: `Bearer ${token}`,
+    body: null,
+  });
+  return (response.body as { totalDocs: number }).totalDocs;
+}
+
+describe("Dashboard", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    ({ token } = await signIn());
+  });
+
+  it("shows the word of the day without counting it as a lookup", async () => {
+    const before = lookupsOnServer(token);
+    renderWithProviders(<Dashboard />);
+
+    const wordOfTheDay = (await screen.findByRole("heading", { name: "Word of the day" })).closest("section")!;
+    expect(await within(wordOfTheDay).findByRole("link", { name: "Look it up" })).toBeInTheDocument();
+    expect(await screen.findByText("Lookups, last 30 days")).toBeInTheDocument();
+
+    expect(lookupsOnServer(token)).toBe(before);
+  });
+
+  it("has no accessibility violations", async () => {
+    const { container } = renderWithProviders(<Dashboard />);
+    await screen.findByText("Lookups, last 30 days");
+
+    await expectNoAxeViolations(container);
+  });
+});
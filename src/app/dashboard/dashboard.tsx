@@ -0,0 +1,232 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { DEFAULT_DICTIONARY_LANGUAGE, entryLanguage, fetchHistory, isDictionaryLanguage } from "../api/services";
+import type { DictionaryLanguage, HistoryWord } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import { DictionaryLanguageSelect } from "../dictionary/dictionary-view";
+import { wordPath } from "../dictionary/word-route";
+import { useFavoritesStore } from "../favorites-store";
+import HeaderBar from "../header-bar";
+import { useHistoryStore } from "../history-store";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+import {
+  lookupStreak,
+  lookupsPerDay,
+  mostRevisited,
+  recentFavorites,
+  windowStart,
+  type DayCount,
+} from "../learning-stats";
+import StatCard from "../stat-card";
+import WordOfTheDay from "./word-of-the-day";
+
+// Stats cover this many days of history; the chart shows the most recent part of it
+const STATS_WINDOW_DAYS = 30;
+const CHART_DAYS = 14;
+const LIST_LIMIT = 5;
+// The stats window is read in large batches, independent of the page size of the history tab
+const HISTORY_BATCH_SIZE = 100;
+// Upper bound on the lookups read for the stats; past it they only cover the most recent ones
+const MAX_HISTORY_PAGES = 50;
+
+/** Reads the history since `from`. `complete` is false when it stopped at `MAX_HISTORY_PAGES`. */
+async function loadRecentHistory(token: string, language: DictionaryLanguage, from: Date) {
+  const entries: HistoryWord[] = [];
+  for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+    const data = await fetchHistory(token, page, HISTORY_BATCH_SIZE, language, { from: from.toISOString() });
+    entries.push(...data.results.filter(item => entryLanguage(item) === language));
+    if (!data.hasNext) return { entries, complete: true };
+  }
+  return { entries, complete: false };
+}
+
+function LookupsChart({ days }: { days: DayCount[] }) {
+  const { t, locale } = useI18n();
+  const max = Math.max(1, ...days.map(day => day.count));
+  const weekdayFormat = useMemo(() => new Intl.DateTimeFormat(locale, { weekday: "narrow" }), [locale]);
+  const dateFormat = useMemo(() => new Intl.DateTimeFormat(locale, { dateStyle: "medium" }), [locale]);
+
+  return (
+    <figure className="bg-surface rounded-lg shadow-md p-4">
+      <figcaption className="text-sm font-semibold text-muted mb-3">{t("home.lookupsPerDay")}</figcaption>
+      <ol className="flex items-stretch gap-1 h-32">
+        {days.map(day => {
+          const label = t("home.lookupsOnDay", { date: dateFormat.format(day.date), count: day.count });
+          return (
+            <li key={day.date.toISOString()} className="flex-1 flex flex-col items-center gap-1" title={label}>
+              <span className="sr-only">{label}</span>
+              <div className="w-full flex-1 flex items-end" aria-hidden="true">
+                <div className="w-full rounded-t bg-indigo-500" style={{ height: `${(day.count / max) * 100}%` }} />
+              </div>
+              <span className="text-xs text-subtle" aria-hidden="true">{weekdayFormat.format(day.date)}</span>
+            </li>
+          );
+        })}
+      </ol>
+    </figure>
+  );
+}
+
+function WordLinkList({
+  title,
+  empty,
+  items,
+  language,
+}: {
+  title: string;
+  empty: string;
+  items: { word: string; note: string }[];
+  language: DictionaryLanguage;
+}) {
+  return (
+    <section className="bg-surface rounded-lg shadow-md p-4">
+      <h3 className="text-sm font-semibold text-muted mb-2">{title}</h3>
+      {items.length === 0 ? (
+        <p className="text-sm text-subtle">{empty}</p>
+      ) : (
+        <ul className="divide-y">
+          {items.map(item => (
+            <li key={item.word} className="flex items-center justify-between py-2">
+              <Link href={wordPath(item.word, language)} className="font-medium text-foreground hover:underline">
+                {item.word}
+              </Link>
+              <span className="text-sm text-muted">{item.note}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function DashboardScreen() {
+  const { t, formatDate } = useI18n();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const langParam = searchParams.get("lang");
+  const language = isDictionaryLanguage(langParam) ? langParam : DEFAULT_DICTIONARY_LANGUAGE;
+  const token = useAuthStore((state) => state.token);
+  const user = useAuthStore((state) => state.user);
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const loadFavorites = useFavoritesStore((state) => state.loadFavorites);
+  const historyRevision = useHistoryStore((state) => state.revision);
+  const [history, setHistory] = useState<HistoryWord[] | null>(null);
+  const [historyComplete, setHistoryComplete] = useState(true);
+  const [error, setError] = useState<MessageKey | "">("");
+
+  useEffect(() => {
+    if (token) loadFavorites();
+  }, [token, loadFavorites]);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setHistory(null);
+    setError("");
+    loadRecentHistory(token, language, windowStart(STATS_WINDOW_DAYS))
+      .then(({ entries, complete }) => {
+        if (cancelled) return;
+        setHistory(entries);
+        setHistoryComplete(complete);
+      })
+      .catch(() => {
+        if (!cancelled) setError("home.statsError");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, language, historyRevision]);
+
+  const languageFavorites = useMemo(
+    () => favorites.filter(fav => entryLanguage(fav) === language),
+    [favorites, language]
+  );
+  const stats = useMemo(() => {
+    if (!history) return null;
+    return {
+      lookups: history.length,
+      streak: lookupStreak(history),
+      distinctWords: new Set(history.map(entry => entry.word)).size,
+      perDay: lookupsPerDay(history, CHART_DAYS),
+      revisited: mostRevisited(history, LIST_LIMIT),
+    };
+  }, [history]);
+
+  const handleLanguageChange = (next: DictionaryLanguage) => {
+    router.replace(next === DEFAULT_DICTIONARY_LANGUAGE ? pathname : `${pathname}?lang=${next}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <HeaderBar />
+      <div className="w-full max-w-5xl mx-auto px-4 md:px-8 py-6 flex flex-col gap-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold text-foreground">
+            {user ? t("home.welcome", { name: user.name }) : t("app.title")}
+          </h1>
+          <div className="flex items-center gap-4">
+            <DictionaryLanguageSelect language={language} onChange={handleLanguageChange} />
+            <Link
+              href={language === DEFAULT_DICTIONARY_LANGUAGE ? "/dictionary" : `/dictionary?lang=${language}`}
+              className="mb-4 px-4 py-2 rounded-md bg-indigo-600 text-white text-sm hover:bg-indigo-700"
+            >
+              {t("home.openDictionary")}
+            </Link>
+          </div>
+        </div>
+
+        <WordOfTheDay language={language} />
+
+        <section aria-labelledby="progress-title" className="flex flex-col gap-4">
+          <h2 id="progress-title" className="text-lg font-semibold text-foreground">{t("home.progress")}</h2>
+          {error && <div className="text-red-500" role="alert">{t(error)}</div>}
+          {!stats && !error && <div className="text-indigo-500" role="status">{t("common.loading")}</div>}
+          {stats && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatCard label={t("home.streak")} value={stats.streak} />
+                <StatCard label={t("home.lookupsInWindow", { days: STATS_WINDOW_DAYS })} value={stats.lookups} />
+                <StatCard label={t("home.wordsInWindow", { days: STATS_WINDOW_DAYS })} value={stats.distinctWords} />
+                <StatCard label={t("home.favoritesCount")} value={languageFavorites.length} />
+              </div>
+              <LookupsChart days={stats.perDay} />
+              {!historyComplete && (
+                <p className="text-sm text-orange-600" role="status">{t("home.statsTruncated", { count: stats.lookups })}</p>
+              )}
+            </>
+          )}
+          <div className="grid md:grid-cols-2 gap-4">
+            {stats && (
+              <WordLinkList
+                title={t("home.mostRevisited")}
+                empty={t("home.noRevisits")}
+                language={language}
+                items={stats.revisited.map(item => ({ word: item.word, note: t("home.revisits", { count: item.count }) }))}
+              />
+            )}
+            <WordLinkList
+              title={t("home.recentFavorites")}
+              empty={t("home.noFavorites")}
+              language={language}
+              items={recentFavorites(languageFavorites, LIST_LIMIT).map(fav => ({ word: fav.word, note: formatDate(fav.added) }))}
+            />
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
+
+/** Home screen for signed-in users: the word of the day and their lookup and favorite stats. */
+export default function Dashboard() {
+  return (
+    <Suspense fallback={null}>
+      <DashboardScreen />
+    </Suspense>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { fetchPickedWord, fetchWordDetail } from "../api/services";
+import type { DictionaryLanguage, WordDetail } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import WordMeanings from "../dictionary/word-meanings";
+import { wordPath } from "../dictionary/word-route";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+import { dailyIndex } from "../learning-stats";
+
+export default function WordOfTheDay({ language }: { language: DictionaryLanguage }) {
+  const { t } = useI18n();
+  const token = useAuthStore((state) => state.token);
+  const [detail, setDetail] = useState<WordDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | "">("");
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    setDetail(null);
+    // The same entry for everyone on a given day
+    fetchPickedWord(language, totalDocs => dailyIndex(totalDocs))
+      // Showing the word is not a lookup by the user, so it stays out of their history and stats
+      .then(word => (word ? fetchWordDetail(word, token, language, { recordLookup: false }) : null))
+      .then(data => {
+        if (cancelled) return;
+        if (data?.results[0]) setDetail(data.results[0]);
+        else setError("home.wordOfTheDayError");
+        setLoading(false);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setError("home.wordOfTheDayError");
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, language]);
+
+  const phonetic = detail?.phonetics.find(p => p.text)?.text;
+
+  return (
+    <section aria-labelledby="word-of-the-day-title" className="bg-detail rounded-lg shadow-md p-6 flex flex-col gap-3">
+      <h2 id="word-of-the-day-title" className="text-sm font-semibold uppercase tracking-wide text-muted">
+        {t("home.wordOfTheDay")}
+      </h2>
+      {loading && <div className="text-indigo-500" role="status">{t("common.loading")}</div>}
+      {error && <div className="text-red-500" role="alert">{t(error)}</div>}
+      {detail && (
+        <>
+          <div className="flex flex-wrap items-baseline gap-3">
+            <span className="text-3xl font-bold text-foreground">{detail.word}</span>
+            {phonetic && <span className="text-accent">{phonetic}</span>}
+            <Link href={wordPath(detail.word, language)} className="ml-auto text-sm text-accent hover:underline">
+              {t("home.lookWordUp")}
+            </Link>
+          </div>
+          <WordMeanings detail={detail} />
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { subscribeToResponseEvents, type ResponseEvent } from "./api/debug-events";
+
+const MAX_EVENTS = 20;
+
+export default function DebugOverlay() {
+  const [events, setEvents] = useState<(ResponseEvent & { id: number })[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    let nextId = 0;
+    return subscribeToResponseEvents(event => {
+      setEvents(prev => [{ ...event, id: nextId++ }, ...prev].slice(0, MAX_EVENTS));
+    });
+  }, []);
+
+  return (
+    <div className="fixed bottom-2 right-2 z-50 text-xs font-mono">
+      {open && (
+        <div className="mb-2 w-[28rem] max-h-80 overflow-y-auto bg-gray-900 text-gray-100 rounded-md shadow-lg p-2">
+          {events.length === 0 && <div className="text-gray-400">No requests yet</div>}
+          {events.map(event => (
+            <div key={event.id} className="flex gap-2 py-0.5 border-b border-gray-700 last:border-0">
+              <span className="w-12 shrink-0">{event.method}</span>
+              <span className="flex-1 truncate" title={event.url}>{event.url}</span>
+              <span className="w-10 shrink-0 text-right">{event.clientCache ? "—" : event.status}</span>
+              <span className="w-20 shrink-0 text-right text-yellow-300">
+                {event.clientCache ? `client ${event.clientCache}` : event.serverCache ?? "—"}
+              </span>
+              <span className="w-16 shrink-0 text-right text-green-300">
+                {event.clientCache ? "0ms" : event.serverTime ?? `${event.durationMs}ms`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        type="button"
+        className="px-2 py-1 rounded bg-gray-900 text-gray-100 shadow"
+        onClick={() => setOpen(prev => !prev)}
+      >
+        {open ? "Hide requests" : `Requests (${events.length})`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { isApiError } from "../api/http";
+import { fetchWordDetail } from "../api/services";
+import type { DictionaryLanguage, WordDetail } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+import { MAX_COMPARE_WORDS } from "./compare-words";
+import { MeaningDefinitions } from "./word-meanings";
+
+type DetailState = { detail: WordDetail | null; error: MessageKey | "" };
+
+function detailKey(word: string, language: DictionaryLanguage) {
+  return `${language}:${word}`;
+}
+
+/** Loads the detail of every compared word; words already loaded are kept when the list changes. */
+function useWordDetails(words: string[], language: DictionaryLanguage) {
+  const token = useAuthStore((state) => state.token);
+  const [details, setDetails] = useState<Record<string, DetailState>>({});
+  // Words parsed from the URL are a new array on every render; the joined list only changes with them
+  const wordsKey = words.join("\n");
+
+  useEffect(() => {
+    if (!token || !wordsKey) return;
+    let cancelled = false;
+    for (const word of wordsKey.split("\n")) {
+      const key = detailKey(word, language);
+      fetchWordDetail(word, token, language)
+        .then(data => {
+          if (!cancelled) setDetails(prev => ({ ...prev, [key]: { detail: data.results[0] ?? null, error: "" } }));
+        })
+        .catch(err => {
+          const error = isApiError(err, "not_found") ? "detail.notFound" : "detail.error";
+          if (!cancelled) setDetails(prev => ({ ...prev, [key]: { detail: null, error } }));
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [wordsKey, language, token]);
+
+  return words.map(word => details[detailKey(word, language)]);
+}
+
+/** Parts of speech of all the words, in the order they first appear from left to right. */
+function partsOfSpeech(details: (WordDetail | null | undefined)[]) {
+  const parts: string[] = [];
+  for (const detail of details) {
+    for (const meaning of detail?.meanings ?? []) {
+      if (!parts.includes(meaning.partOfSpeech)) parts.push(meaning.partOfSpeech);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Up to four words side by side, one column each, with their pronunciations and every part
+ * of speech lined up in shared rows. Synonyms and antonyms open the related word next to the
+ * column they were clicked in.
+ */
+export default function CompareView({
+  words,
+  language,
+  onRemove,
+  onRelatedWord,
+  onClose,
+}: {
+  words: string[];
+  language: DictionaryLanguage;
+  onRemove: (word: string) => void;
+  onRelatedWord: (source: string, related: string) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const states = useWordDetails(words, language);
+  const details = states.map(state => state?.detail);
+  const parts = partsOfSpeech(details);
+
+  return (
+    <section aria-labelledby="compare-title" className="flex-1 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 id="compare-title" className="text-xl font-bold text-foreground">{t("compare.title")}</h2>
+        <button
+          type="button"
+          className="px-3 py-1 rounded-md border border-line text-muted text-sm hover:bg-surface-hover"
+          onClick={onClose}
+        >
+          {t("compare.close")}
+        </button>
+      </div>
+      <p className="text-sm text-muted">
+        {words.length < 2
+          ? t("compare.needMore")
+          : words.length >= MAX_COMPARE_WORDS
+            ? t("compare.full", { max: MAX_COMPARE_WORDS })
+            : t("compare.hint")}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full table-fixed border-collapse bg-surface rounded-lg shadow-md">
+          <thead>
+            <tr>
+              {words.map(word => (
+                <th key={word} scope="col" className="border px-4 py-3 text-left align-top">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-lg font-bold text-foreground break-words">{word}</span>
+                    <button
+                      type="button"
+                      className="shrink-0 w-6 h-6 flex items-center justify-center rounded-full text-muted hover:bg-surface-hover"
+                      onClick={() => onRemove(word)}
+                      aria-label={t("compare.remove", { word })}
+                    >
+                      <span aria-hidden="true">×</span>
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <th colSpan={words.length} scope="colgroup" className="border px-4 py-1 text-left text-sm font-semibold text-muted bg-highlight-soft">
+                {t("compare.pronunciation")}
+              </th>
+            </tr>
+            <tr>
+              {words.map((word, idx) => {
+                const state = states[idx];
+                const phonetics = state?.detail?.phonetics.filter(p => p.text) ?? [];
+                return (
+                  <td key={word} className="border px-4 py-2 align-top text-sm">
+                    {!state && <span className="text-indigo-500" role="status">{t("common.loading")}</span>}
+                    {state?.error && <span className="text-red-500" role="alert">{t(state.error)}</span>}
+                    {state?.detail && (phonetics.length > 0 ? (
+                      <span className="text-accent">{phonetics.map(p => p.text).join(" · ")}</span>
+                    ) : (
+                      <span className="text-subtle">—</span>
+                    ))}
+                  </td>
+                );
+              })}
+            </tr>
+            {parts.map(part => (
+              <Fragment key={part}>
+                <tr>
+                  <th colSpan={words.length} scope="colgroup" className="border px-4 py-1 text-left text-sm font-semibold italic text-accent bg-highlight-soft">
+                    {part}
+                  </th>
+                </tr>
+                <tr>
+                  {words.map((word, idx) => {
+                    const meanings = details[idx]?.meanings.filter(meaning => meaning.partOfSpeech === part) ?? [];
+                    return (
+                      <td key={word} className="border px-4 py-2 align-top">
+                        {meanings.length === 0 ? (
+                          <span className="text-subtle text-sm">—</span>
+                        ) : (
+                          meanings.map((meaning, meaningIdx) => (
+                            <div key={meaningIdx} className="mb-2 last:mb-0">
+                              <MeaningDefinitions meaning={meaning} onWordClick={related => onRelatedWord(word, related)} />
+                            </div>
+                          ))
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { compareWordsFromParams, withComparedWord, withRelatedWord } from "./compare-words";
+
+describe("compareWordsFromParams", () => {
+  it("keeps the first four distinct words in order", () => {
+    const params = new URLSearchParams("word=big&word=large&word=big&word=&word=huge&word=vast&word=great");
+    expect(compareWordsFromParams(params)).toEqual(["big", "large", "huge", "vast"]);
+  });
+});
+
+describe("withComparedWord", () => {
+  it("appends new words until the comparison is full", () => {
+    expect(withComparedWord(["big"], "large")).toEqual(["big", "large"]);
+    expect(withComparedWord(["big", "large"], "big")).toEqual(["big", "large"]);
+    expect(withComparedWord(["big", "large", "huge", "vast"], "great")).toEqual(["big", "large", "huge", "vast"]);
+  });
+});
+
+describe("withRelatedWord", () => {
+  it("opens the related word right after its source", () => {
+    expect(withRelatedWord(["big", "small"], "big", "large")).toEqual(["big", "large", "small"]);
+    expect(withRelatedWord(["big", "large"], "big", "large")).toEqual(["big", "large"]);
+  });
+
+  it("drops the rightmost other panel when full, never the source", () => {
+    expect(withRelatedWord(["big", "large", "huge", "vast"], "big", "great")).toEqual(["big", "great", "large", "huge"]);
+    expect(withRelatedWord(["big", "large", "huge", "vast"], "vast", "great")).toEqual(["big", "large", "vast", "great"]);
+  });
+});
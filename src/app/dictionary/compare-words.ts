@@ -0,0 +1,27 @@
+export const MAX_COMPARE_WORDS = 4;
+
+/** Words named by the repeated `word` query parameter, without duplicates and capped at the maximum. */
+export function compareWordsFromParams(params: URLSearchParams) {
+  return [...new Set(params.getAll("word").filter(Boolean))].slice(0, MAX_COMPARE_WORDS);
+}
+
+/** Adds `word` after the others, unless it is already compared or the comparison is full. */
+export function withComparedWord(words: string[], word: string) {
+  if (words.includes(word) || words.length >= MAX_COMPARE_WORDS) return words;
+  return [...words, word];
+}
+
+/**
+ * Opens `related` right next to the panel it was reached from. A full comparison makes room
+ * by dropping its rightmost other panel, so the source panel is never lost.
+ */
+export function withRelatedWord(words: string[], source: string, related: string) {
+  if (words.includes(related)) return words;
+  const next = [...words];
+  next.splice(words.indexOf(source) + 1, 0, related);
+  if (next.length > MAX_COMPARE_WORDS) {
+    const dropIndex = next.findLastIndex(word => word !== source && word !== related);
+    next.splice(dropIndex, 1);
+  }
+  return next;
+}
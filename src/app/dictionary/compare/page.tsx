@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Compare",
+};
+
+// The comparison is rendered by the dictionary layout from this route's `word` query params.
+export default function ComparePage() {
+  return null;
+}
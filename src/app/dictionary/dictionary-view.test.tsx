@@ -0,0 +1,165 @@
+import { act, fireEvent, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockBackend } from "../../../mocks/node";
+import { expectNoAxeViolations, signIn, renderWithProviders } from "../../test-utils";
+import { useWordListStore } from "../word-list-store";
+import { WordDetailBox, WordGrid, WordSearch } from "./dictionary-view";
+
+vi.mock("next/navigation", () => ({
+  useParams: () => ({}),
+  usePathname: () => "/dictionary",
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn() }),
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+async function favoritesOnServer(token: string) {
+  const response = mockBackend.handle({
+    method: "GET",
+    path: "/user/me/favorites",
+    query: new URLSearchParams(),
+    authorization: `Bearer ${token}`,
+    body: null,
+  });
+  return (response.body as { results: { word: string }[] }).results.map(fav => fav.word);
+}
+
+describe("WordGrid", () => {
+  beforeEach(() => {
+    useWordListStore.setState(useWordListStore.getInitialState(), true);
+  });
+
+  it("renders the first page of words as grid cells", async () => {
+    renderWithProviders(<WordGrid language="en" selectedWord={null} onWordClick={() => {}} />);
+
+    const grid = screen.getByRole("grid", { name: "Words" });
+    expect(await within(grid).findByRole("gridcell", { name: /abandon/ })).toHaveAttribute("tabindex", "0");
+    expect(useWordListStore.getState().words).toHaveLength(30);
+    expect(grid).toHaveAttribute("aria-rowcount", "-1");
+  });
+
+  it("has no accessibility violations", async () => {
+    const { container } = renderWithProviders(<WordGrid language="en" selectedWord={null} onWordClick={() => {}} />);
+    await screen.findByRole("gridcell", { name: /abandon/ });
+
+    await expectNoAxeViolations(container);
+  });
+
+  it("loads the next page when scrolled near the end", async () => {
+    const { container } = renderWithProviders(<WordGrid language="en" selectedWord={null} onWordClick={() => {}} pageSize={30} />);
+    await waitFor(() => expect(useWordListStore.getState().words).toHaveLength(30));
+
+    fireEvent.scroll(container.firstElementChild!, { target: { scrollTop: 400 } });
+
+    await waitFor(() => expect(useWordListStore.getState().words).toHaveLength(60));
+    expect(await screen.findByRole("gridcell", { name: /^article/ })).toBeInTheDocument();
+  });
+
+  it("moves between cells with the arrow keys and opens the focused word", async () => {
+    const user = userEvent.setup();
+    const onWordClick = vi.fn();
+    renderWithProviders(<WordGrid language="en" selectedWord={null} onWordClick={onWordClick} />);
+
+    const first = await screen.findByRole("gridcell", { name: /abandon/ });
+    act(() => first.focus());
+    await user.keyboard("{ArrowRight}{ArrowDown}");
+
+    const focused = screen.getByRole("gridcell", { name: /account/ });
+    expect(focused).toHaveFocus();
+    expect(focused).toHaveAttribute("tabindex", "0");
+    await user.keyboard("{Enter}");
+    expect(onWordClick).toHaveBeenCalledWith("account");
+  });
+
+  it("toggles the favorite of the focused word with the f key", async () => {
+    const user = userEvent.setup();
+    const { token } = await signIn();
+    renderWithProviders(<WordGrid language="en" selectedWord={null} onWordClick={() => {}} />);
+
+    const cell = await screen.findByRole("gridcell", { name: /abandon/ });
+    act(() => cell.focus());
+    await user.keyboard("f");
+
+    expect(within(cell).getByRole("button", { name: "Favorite \"abandon\"" })).toHaveAttribute("aria-pressed", "true");
+    await waitFor(async () => expect(await favoritesOnServer(token)).toContain("abandon"));
+  });
+});
+
+describe("WordDetailBox", () => {
+  it("shows the meanings of the word", async () => {
+    await signIn();
+    renderWithProviders(<WordDetailBox word="hello" language="en" onClose={() => {}} />);
+
+    expect(screen.getByRole("heading", { name: "hello" })).toBeInTheDocument();
+    expect(await screen.findByText("A greeting used when answering the telephone.")).toBeInTheDocument();
+    expect(screen.getByText("/həˈləʊ/")).toBeInTheDocument();
+    expect(screen.getByRole("region", { name: "hello" })).toHaveFocus();
+  });
+
+  it("has no accessibility violations", async () => {
+    await signIn();
+    const { container } = renderWithProviders(<WordDetailBox word="hello" language="en" onClose={() => {}} />);
+    await screen.findByText("A greeting used when answering the telephone.");
+
+    await expectNoAxeViolations(container);
+  });
+
+  it("reports words the dictionary does not know", async () => {
+    await signIn();
+    renderWithProviders(<WordDetailBox word="qwertyuiop" language="en" onClose={() => {}} />);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Word not found");
+  });
+
+  it("drops the previous word's meanings when the word changes", async () => {
+    await signIn();
+    const { rerender } = renderWithProviders(<WordDetailBox word="hello" language="en" onClose={() => {}} />);
+    await screen.findByText("A greeting used when answering the telephone.");
+
+    rerender(<WordDetailBox word="qwertyuiop" language="en" onClose={() => {}} />);
+
+    expect(screen.queryByText("A greeting used when answering the telephone.")).not.toBeInTheDocument();
+    expect(screen.getByRole("heading", { name: "qwertyuiop" })).toBeInTheDocument();
+    expect(await screen.findByRole("alert")).toHaveTextContent("Word not found");
+  });
+
+  it("calls onClose from the close button", async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    await signIn();
+    renderWithProviders(<WordDetailBox word="world" language="en" onClose={onClose} />);
+
+    await user.click(screen.getByRole("button", { name: "Close" }));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
+
+describe("WordSearch", () => {
+  it("shows the empty state only once the current prefix has been searched", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<WordSearch language="en" onSelect={() => {}} />);
+    const input = screen.getByRole("combobox", { name: "Search words" });
+
+    await user.type(input, "zzz");
+    expect(await screen.findByText("No matching words")).toBeInTheDocument();
+
+    await user.clear(input);
+    await user.type(input, "ab");
+    // The previous prefix found nothing; that says nothing about "ab" until its search resolves
+    expect(screen.queryByText("No matching words")).not.toBeInTheDocument();
+    expect(await screen.findByRole("option", { name: "abandon" })).toBeInTheDocument();
+  });
+
+  it("looks up the typed word on Enter while its suggestions are still loading", async () => {
+    const user = userEvent.setup();
+    const onSelect = vi.fn();
+    renderWithProviders(<WordSearch language="en" onSelect={onSelect} />);
+    const input = screen.getByRole("combobox", { name: "Search words" });
+
+    await user.type(input, "ab");
+    await screen.findByRole("option", { name: "abandon" });
+    await user.type(input, "yss{Enter}");
+
+    expect(onSelect).toHaveBeenCalledWith("abyss");
+  });
+});
@@ -0,0 +1,803 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_DICTIONARY_LANGUAGE,
+  DICTIONARY_LANGUAGES,
+  fetchWordDetail,
+  isDictionaryLanguage,
+  searchWords,
+} from "../api/services";
+import { isApiError } from "../api/http";
+import type { DictionaryLanguage, WordDetail } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import { config } from "../config";
+import { useConnectivityStore } from "../connectivity-store";
+import { isSameFavorite, useFavoritesStore } from "../favorites-store";
+import type { MessageKey } from "../i18n/en";
+import HeaderBar from "../header-bar";
+import { useI18n } from "../i18n/i18n-provider";
+import { reportError } from "../telemetry/telemetry";
+import { useWordListStore } from "../word-list-store";
+import CompareView from "./compare-view";
+import { compareWordsFromParams, withComparedWord, withRelatedWord } from "./compare-words";
+import FavoritesList from "./favorites-list";
+import HistoryList from "./history-list";
+import StudyPanel from "./study-panel";
+import WordMeanings from "./word-meanings";
+import { decodeWordParam } from "./word-route";
+
+
+type Tab = "words" | "favorites" | "history" | "study";
+
+const ALL_TABS: { tab: Tab; label: MessageKey; href: string }[] = [
+  { tab: "words", label: "tabs.wordList", href: "/dictionary" },
+  { tab: "favorites", label: "tabs.favorites", href: "/dictionary/favorites" },
+  { tab: "history", label: "tabs.history", href: "/dictionary/history" },
+  { tab: "study", label: "tabs.study", href: "/dictionary/study" },
+];
+const TABS = ALL_TABS.filter(({ tab }) => tab !== "study" || config.features.study);
+const SEARCH_DEBOUNCE_MS = 300;
+const GRID_COLUMNS = 3;
+const GRID_ROW_HEIGHT = 56;
+// Rows rendered above and below the viewport so fast scrolling does not show blank space
+const GRID_OVERSCAN_ROWS = 4;
+
+const TAB_PANEL_ID = "dictionary-tabpanel";
+
+function TabLink({ tab, label, active, href }: { tab: Tab; label: string; active: boolean; href: string }) {
+  return (
+    <Link
+      id={`tab-${tab}`}
+      role="tab"
+      className={`px-6 py-2 border-b-2 font-medium focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 transition-colors text-base ${active ? "border-indigo-600 text-accent bg-background" : "border-transparent text-muted hover:bg-surface-hover"}`}
+      href={href}
+      aria-selected={active}
+      aria-controls={TAB_PANEL_ID}
+      // Only the active tab is in the tab order; the arrow keys move between tabs
+      tabIndex={active ? 0 : -1}
+    >
+      {label}
+    </Link>
+  );
+}
+
+function isTab(value: string | null): value is Tab {
+  return TABS.some(tab => tab.tab === value);
+}
+
+function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+function tabForPath(pathname: string): Tab {
+  if (pathname.startsWith("/dictionary/favorites")) return "favorites";
+  if (pathname.startsWith("/dictionary/history")) return "history";
+  if (pathname.startsWith("/dictionary/study") && config.features.study) return "study";
+  return "words";
+}
+
+export function DictionaryLanguageSelect({ language, onChange }: { language: DictionaryLanguage; onChange: (language: DictionaryLanguage) => void }) {
+  const { t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 mb-4 text-sm text-muted">
+      {t("dictionary.language")}
+      <select
+        className="rounded-md border border-line bg-surface px-2 py-2 text-foreground"
+        value={language}
+        onChange={e => {
+          if (isDictionaryLanguage(e.target.value)) onChange(e.target.value);
+        }}
+      >
+        {DICTIONARY_LANGUAGES.map(option => (
+          <option key={option} value={option}>
+            {t(`dictionary.language.${option}`)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function WordSearch({ language, onSelect, inputRef }: { language: DictionaryLanguage; onSelect: (word: string) => void; inputRef?: React.Ref<HTMLInputElement> }) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  // Prefix the current suggestions were returned for; until the new prefix resolves they are not its results
+  const [resultsFor, setResultsFor] = useState("");
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | "">("");
+
+  useEffect(() => {
+    const prefix = query.trim();
+    if (!prefix) {
+      setSuggestions([]);
+      setResultsFor("");
+      setLoading(false);
+      setError("");
+      return;
+    }
+    // Each prefix gets its own controller, so a slower response for an
+    // earlier prefix is aborted instead of overwriting the newer one.
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      setLoading(true);
+      setError("");
+      searchWords(prefix, config.pageSizes.suggestions, language, controller.signal)
+        .then(words => {
+          setSuggestions(words);
+          setResultsFor(prefix);
+          setActiveIndex(-1);
+          setLoading(false);
+        })
+        .catch(() => {
+          if (controller.signal.aborted) return;
+          setError("search.error");
+          setLoading(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, language]);
+
+  const select = (word: string) => {
+    onSelect(word);
+    setQuery(word);
+    setOpen(false);
+  };
+
+  const showList = open && query.trim() !== "";
+  const resolved = !loading && !error && resultsFor === query.trim();
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(idx => (suggestions.length === 0 ? -1 : (idx + 1) % suggestions.length));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex(idx => (suggestions.length === 0 ? -1 : (idx <= 0 ? suggestions.length - 1 : idx - 1)));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (activeIndex >= 0 && suggestions[activeIndex]) {
+        select(suggestions[activeIndex]);
+      } else if (resolved && suggestions.length > 0) {
+        select(suggestions[0]);
+      } else if (query.trim()) {
+        // The suggestions on screen may still belong to an earlier prefix; look up what was typed instead
+        select(query.trim());
+      }
+    } else if (e.key === "Escape") {
+      // Closing the suggestions takes the key, so it doesn't also close the word detail
+      if (showList) e.preventDefault();
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className="relative w-full mb-4">
+      <input
+        ref={inputRef}
+        type="search"
+        role="combobox"
+        aria-label={t("search.label")}
+        aria-expanded={showList}
+        aria-controls="word-search-suggestions"
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `word-search-option-${activeIndex}` : undefined}
+        className="w-full px-3 py-2 border border-line rounded-md text-foreground placeholder-subtle focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        placeholder={t("search.placeholder")}
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      <div role="status" className="sr-only">
+        {showList && resolved ? t("search.results", { count: suggestions.length }) : ""}
+      </div>
+      {showList && (
+        <ul
+          id="word-search-suggestions"
+          role="listbox"
+          className="absolute z-30 mt-1 w-full bg-surface border border-line rounded-md shadow-lg max-h-64 overflow-y-auto"
+        >
+          {loading && <li className="px-3 py-2 text-indigo-500">{t("common.loading")}</li>}
+          {error && <li className="px-3 py-2 text-red-500">{t(error)}</li>}
+          {resolved && suggestions.length === 0 && (
+            <li className="px-3 py-2 text-subtle text-sm">{t("search.noMatches")}</li>
+          )}
+          {!loading && suggestions.map((word, idx) => (
+            <li
+              key={word}
+              id={`word-search-option-${idx}`}
+              role="option"
+              aria-selected={idx === activeIndex}
+              className={`px-3 py-2 cursor-pointer text-foreground ${idx === activeIndex ? "bg-highlight" : "hover:bg-highlight-soft"}`}
+              // Prevent the input blur from closing the list before the click registers
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => select(word)}
+            >
+              {word}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function AudioPlayer({ src, label }: { src: string; label: string }) {
+  const { t } = useI18n();
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const toggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (playing) {
+      audio.pause();
+    } else {
+      audio.play().catch(err => {
+        setPlaying(false);
+        // Autoplay policies reject play() on purpose; anything else means the audio is broken
+        if (!(err instanceof DOMException && err.name === "NotAllowedError")) reportError(err, "audio", { src });
+      });
+    }
+  };
+
+  return (
+    <>
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="none"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => setPlaying(false)}
+      />
+      <button
+        type="button"
+        className="w-8 h-8 flex items-center justify-center rounded-full bg-indigo-500 hover:bg-indigo-600 text-white"
+        onClick={toggle}
+        aria-label={playing ? t("detail.pause", { label }) : t("detail.play", { label })}
+      >
+        {playing ? "❚❚" : "▶"}
+      </button>
+    </>
+  );
+}
+
+export function WordDetailBox({
+  word,
+  language,
+  onPrev,
+  onNext,
+  onClose,
+  onCompare,
+  onRelatedWord,
+}: {
+  word: string;
+  language: DictionaryLanguage;
+  onPrev?: () => void;
+  onNext?: () => void;
+  onClose: () => void;
+  /** Opens the comparison starting with this word. */
+  onCompare?: () => void;
+  /** Called with a synonym or antonym picked from the meanings. */
+  onRelatedWord?: (related: string) => void;
+}) {
+  const { t } = useI18n();
+  const sectionRef = useRef<HTMLElement | null>(null);
+  const [detail, setDetail] = useState<WordDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | "">("");
+  const token = useAuthStore((state) => state.token);
+
+  useEffect(() => {
+    if (!word || !token) return;
+    // A slower answer for the previous word must neither show up here nor leave its meanings on screen
+    let cancelled = false;
+    setDetail(null);
+    setLoading(true);
+    setError("");
+    fetchWordDetail(word, token, language)
+      .then(data => {
+        if (cancelled) return;
+        setDetail(data.results[0]);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(isApiError(err, "not_found") ? "detail.notFound" : "detail.error");
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [word, token, language]);
+
+  // Opening the panel moves focus into it so screen readers announce the word;
+  // switching words with previous/next keeps focus on those buttons
+  useEffect(() => {
+    sectionRef.current?.focus();
+  }, []);
+
+  return (
+    <section
+      ref={sectionRef}
+      tabIndex={-1}
+      aria-labelledby="word-detail-title"
+      className="flex flex-col items-center max-h-[calc(100vh-6rem)] overflow-y-auto focus:outline-none"
+    >
+      <div className="relative bg-detail rounded-lg p-6 shadow-md min-h-[120px] min-w-[200px] flex flex-col items-center justify-center mb-4 w-full">
+        <button
+          type="button"
+          className="absolute top-2 right-2 w-8 h-8 flex items-center justify-center rounded-full text-muted hover:bg-detail-hover"
+          onClick={onClose}
+          aria-label={t("detail.close")}
+        >
+          <span aria-hidden="true">×</span>
+        </button>
+        <div className="flex items-center gap-2 mb-2">
+          <h2 id="word-detail-title" className="text-2xl font-bold text-foreground">{detail?.word ?? word}</h2>
+          <FavoriteToggle word={word} language={language} />
+        </div>
+        {onCompare && (
+          <button
+            type="button"
+            className="mb-2 px-3 py-1 rounded-md border border-line text-muted text-sm hover:bg-detail-hover"
+            onClick={onCompare}
+          >
+            {t("detail.compare")}
+          </button>
+        )}
+        {loading && <div className="text-indigo-500" role="status">{t("common.loading")}</div>}
+        {error && <div className="text-red-500" role="alert">{t(error)}</div>}
+        {detail && (
+          <>
+            {detail.phonetics?.map((phonetic, idx) => (
+              (phonetic.text || phonetic.audio) && (
+                <div key={`${detail.word}-${idx}`} className="flex items-center gap-2 mb-2">
+                  {phonetic.text && <span className="text-accent">{phonetic.text}</span>}
+                  {phonetic.audio && (
+                    <AudioPlayer src={phonetic.audio} label={phonetic.text ?? detail.word} />
+                  )}
+                </div>
+              )
+            ))}
+          </>
+        )}
+      </div>
+      {detail && <WordMeanings detail={detail} onWordClick={onRelatedWord} />}
+      {(onPrev || onNext) && (
+        <div className="flex w-full justify-between mt-2">
+          <button
+            type="button"
+            className="px-4 py-2 rounded-md bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={onPrev}
+            disabled={!onPrev}
+          >
+            {t("detail.previous")}
+          </button>
+          <button
+            type="button"
+            className="px-4 py-2 rounded-md bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={onNext}
+            disabled={!onNext}
+          >
+            {t("detail.next")}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function FavoriteToggle({ word, language, className = "", tabIndex }: { word: string; language: DictionaryLanguage; className?: string; tabIndex?: number }) {
+  const { t } = useI18n();
+  const isFavorite = useFavoritesStore((state) => state.favorites.some(fav => isSameFavorite(fav, word, language)));
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
+
+  return (
+    <button
+      type="button"
+      className={`w-6 h-6 flex items-center justify-center rounded-full hover:bg-yellow-100 dark:hover:bg-yellow-900/40 ${className}`}
+      onClick={e => {
+        e.stopPropagation();
+        toggleFavorite(word, language);
+      }}
+      aria-label={t("favorites.toggle", { word })}
+      aria-pressed={isFavorite}
+      title={isFavorite ? t("favorites.remove") : t("favorites.add")}
+      tabIndex={tabIndex}
+    >
+      <span className={`text-lg ${isFavorite ? "text-yellow-500" : "text-subtle"}`} aria-hidden="true">{isFavorite ? "★" : "☆"}</span>
+    </button>
+  );
+}
+
+export function WordGrid({ language, onWordClick, selectedWord, pageSize = config.pageSizes.words }: { language: DictionaryLanguage; onWordClick: (word: string) => void; selectedWord: string | null; pageSize?: number }) {
+  const { t } = useI18n();
+  const words = useWordListStore((state) => state.words);
+  const hasMore = useWordListStore((state) => state.next !== null);
+  const loading = useWordListStore((state) => state.loading);
+  const error = useWordListStore((state) => state.error);
+  const loadMore = useWordListStore((state) => state.loadMore);
+  const setScrollTop = useWordListStore((state) => state.setScrollTop);
+  const setLanguage = useWordListStore((state) => state.setLanguage);
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  // Cell that holds the grid's single tab stop; the arrow keys move it
+  const [activeIndex, setActiveIndex] = useState(() => Math.max(0, words.indexOf(selectedWord ?? "")));
+  const focusPending = useRef(false);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.scrollTop = useWordListStore.getState().scrollTop;
+    setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+    const resizeObserver = new ResizeObserver(() => {
+      setViewport(prev => ({ ...prev, height: container.clientHeight }));
+    });
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Declared before the loading effect so a language switch never loads a page of the old list
+  useEffect(() => {
+    if (useWordListStore.getState().language === language) return;
+    setLanguage(language);
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setViewport(prev => ({ ...prev, scrollTop: 0 }));
+  }, [language, setLanguage]);
+
+  const rowCount = Math.ceil(words.length / GRID_COLUMNS);
+  const firstRow = Math.max(0, Math.floor(viewport.scrollTop / GRID_ROW_HEIGHT) - GRID_OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((viewport.scrollTop + viewport.height) / GRID_ROW_HEIGHT) + GRID_OVERSCAN_ROWS);
+
+  useEffect(() => {
+    if (hasMore && !loading && !error && lastRow >= rowCount - GRID_OVERSCAN_ROWS) {
+      loadMore(pageSize);
+    }
+  }, [hasMore, loading, error, lastRow, rowCount, loadMore, pageSize]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, clientHeight } = e.currentTarget;
+    setViewport({ scrollTop, height: clientHeight });
+    setScrollTop(scrollTop);
+  };
+
+  const focusIndex = Math.min(activeIndex, words.length - 1);
+  const focusRow = Math.floor(focusIndex / GRID_COLUMNS);
+  // If the active cell was scrolled out of the rendered rows, the first rendered cell takes the tab stop
+  const tabStopIndex = focusRow >= firstRow && focusRow <= lastRow ? focusIndex : firstRow * GRID_COLUMNS;
+
+  useEffect(() => {
+    if (!focusPending.current) return;
+    focusPending.current = false;
+    containerRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)?.focus();
+  }, [activeIndex, viewport]);
+
+  const moveTo = (index: number) => {
+    const next = Math.max(0, Math.min(words.length - 1, index));
+    const container = containerRef.current;
+    if (container) {
+      // Scroll the row into view first so the virtualized grid renders the cell before it is focused
+      const rowTop = Math.floor(next / GRID_COLUMNS) * GRID_ROW_HEIGHT;
+      if (rowTop < container.scrollTop) {
+        container.scrollTop = rowTop;
+      } else if (rowTop + GRID_ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+        container.scrollTop = rowTop + GRID_ROW_HEIGHT - container.clientHeight;
+      }
+      setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+    }
+    focusPending.current = true;
+    setActiveIndex(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys pressed on the favorite button inside a cell keep their default behaviour
+    if ((e.target as HTMLElement).getAttribute("role") !== "gridcell") return;
+    if (words.length === 0 || e.ctrlKey || e.metaKey || e.altKey) return;
+    const current = Math.max(0, tabStopIndex);
+    const rowStart = current - (current % GRID_COLUMNS);
+    switch (e.key) {
+      case "ArrowRight":
+        moveTo(current + 1);
+        break;
+      case "ArrowLeft":
+        moveTo(current - 1);
+        break;
+      case "ArrowDown":
+        moveTo(current + GRID_COLUMNS);
+        break;
+      case "ArrowUp":
+        moveTo(current - GRID_COLUMNS);
+        break;
+      case "Home":
+        moveTo(rowStart);
+        break;
+      case "End":
+        moveTo(rowStart + GRID_COLUMNS - 1);
+        break;
+      case "Enter":
+        onWordClick(words[current]);
+        break;
+      case "f":
+        toggleFavorite(words[current], language);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const visibleRows = [];
+  for (let rowIdx = firstRow; rowIdx <= lastRow; rowIdx++) {
+    visibleRows.push(
+      <div
+        key={rowIdx}
+        role="row"
+        aria-rowindex={rowIdx + 1}
+        className="absolute left-0 right-0 grid grid-cols-3"
+        style={{ top: rowIdx * GRID_ROW_HEIGHT, height: GRID_ROW_HEIGHT }}
+      >
+        {words.slice(rowIdx * GRID_COLUMNS, rowIdx * GRID_COLUMNS + GRID_COLUMNS).map((word, colIdx) => {
+          const index = rowIdx * GRID_COLUMNS + colIdx;
+          return (
+            <div
+              key={word}
+              role="gridcell"
+              data-index={index}
+              aria-colindex={colIdx + 1}
+              aria-selected={selectedWord === word}
+              tabIndex={index === tabStopIndex ? 0 : -1}
+              className={`border px-4 flex items-center justify-center text-foreground text-base font-medium cursor-pointer transition relative truncate focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-500 ${selectedWord === word ? "bg-highlight" : "hover:bg-highlight-soft"}`}
+              onClick={() => {
+                setActiveIndex(index);
+                onWordClick(word);
+              }}
+            >
+              <span className="truncate">{word}</span>
+              {/* Kept out of the tab order: the cell's "f" shortcut toggles it */}
+              <FavoriteToggle word={word} language={language} className="absolute top-1 right-1" tabIndex={-1} />
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="flex-1 overflow-y-auto w-full h-[70vh]" onScroll={handleScroll}>
+      <p id="word-grid-hint" className="sr-only">{t("words.keyboardHint")}</p>
+      <div
+        role="grid"
+        aria-label={t("words.gridLabel")}
+        aria-describedby="word-grid-hint"
+        aria-rowcount={hasMore ? -1 : rowCount}
+        aria-colcount={GRID_COLUMNS}
+        className="relative w-full bg-surface rounded-lg shadow-md"
+        style={{ height: rowCount * GRID_ROW_HEIGHT }}
+        onKeyDown={handleKeyDown}
+      >
+        {visibleRows}
+      </div>
+      {loading && <div className="text-center py-4 text-indigo-500" role="status">{t("common.loading")}</div>}
+      {error && (
+        <div className="text-center py-4 text-red-500" role="alert">
+          {t(error)}{" "}
+          <button type="button" className="underline" onClick={() => loadMore(pageSize)}>
+            {t("common.retry")}
+          </button>
+        </div>
+      )}
+      {!hasMore && !loading && (
+        <div className="text-center py-4 text-subtle text-sm">{t("words.noMore")}</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The whole dictionary screen. It is rendered by the `/dictionary` layout so it stays
+ * mounted while navigating between tabs and words; the active tab and the selected
+ * word are read from the URL.
+ */
+export default function DictionaryView() {
+  return (
+    <Suspense fallback={null}>
+      <DictionaryScreen />
+    </Suspense>
+  );
+}
+
+function DictionaryScreen() {
+  const { t } = useI18n();
+  const router = useRouter();
+  const pathname = usePathname();
+  const params = useParams<{ word?: string }>();
+  const searchParams = useSearchParams();
+  const langParam = searchParams.get("lang");
+  const language = isDictionaryLanguage(langParam) ? langParam : DEFAULT_DICTIONARY_LANGUAGE;
+  const selectedWord = params.word ? decodeWordParam(params.word) : null;
+  const comparing = pathname.startsWith("/dictionary/compare");
+  const compareWords = useMemo(() => compareWordsFromParams(searchParams), [searchParams]);
+  // A word or comparison opened from another tab remembers that tab so closing returns to it
+  const tabParam = searchParams.get("tab");
+  const activeTab = (selectedWord || comparing) && isTab(tabParam) ? tabParam : tabForPath(pathname);
+  const loadedWords = useWordListStore((state) => state.words);
+  const token = useAuthStore((state) => state.token);
+  const loadFavorites = useFavoritesStore((state) => state.loadFavorites);
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
+  const syncPendingChanges = useConnectivityStore((state) => state.syncPendingChanges);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  // Element that had focus when the detail opened, so closing it can hand focus back
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  // Keeps the selected dictionary in every link so a shared URL opens the same one
+  const withLanguage = (href: string, lang: DictionaryLanguage = language, query: Record<string, string> | [string, string][] = {}) => {
+    const params = new URLSearchParams(query);
+    if (lang !== DEFAULT_DICTIONARY_LANGUAGE) params.set("lang", lang);
+    const search = params.toString();
+    return search ? `${href}?${search}` : href;
+  };
+
+  const activeTabHref = withLanguage(TABS.find(tab => tab.tab === activeTab)!.href);
+
+  const openWord = (word: string, fromTab: Tab = "words") => {
+    if (!selectedWord && document.activeElement instanceof HTMLElement) returnFocusRef.current = document.activeElement;
+    const query: Record<string, string> = fromTab === "words" ? {} : { tab: fromTab };
+    router.push(withLanguage(`/dictionary/word/${encodeURIComponent(word)}`, language, query));
+  };
+
+  const openCompare = (words: string[]) => {
+    if (words.length === 0) {
+      router.push(activeTabHref);
+      return;
+    }
+    const query: [string, string][] = words.map(word => ["word", word]);
+    if (activeTab !== "words") query.push(["tab", activeTab]);
+    router.push(withLanguage("/dictionary/compare", language, query));
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    loadFavorites();
+    syncPendingChanges();
+  }, [token, loadFavorites, syncPendingChanges]);
+
+  useEffect(() => {
+    if (selectedWord || !returnFocusRef.current) return;
+    // The opener may have been unmounted meanwhile, e.g. a grid cell scrolled out of view
+    if (returnFocusRef.current.isConnected) returnFocusRef.current.focus();
+    returnFocusRef.current = null;
+  }, [selectedWord]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === "Escape" && (selectedWord || comparing)) {
+        router.push(activeTabHref);
+        return;
+      }
+      if (isEditableTarget(e.target)) return;
+      if (e.key === "/") {
+        e.preventDefault();
+        searchInputRef.current?.focus();
+      } else if (e.key === "f" && selectedWord) {
+        e.preventDefault();
+        toggleFavorite(selectedWord, language);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [router, activeTabHref, selectedWord, comparing, language, toggleFavorite]);
+
+  const handleTabKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const current = TABS.findIndex(tab => tab.tab === activeTab);
+    let next: number;
+    if (e.key === "ArrowRight") next = (current + 1) % TABS.length;
+    else if (e.key === "ArrowLeft") next = (current - 1 + TABS.length) % TABS.length;
+    else if (e.key === "Home") next = 0;
+    else if (e.key === "End") next = TABS.length - 1;
+    else return;
+    e.preventDefault();
+    document.getElementById(`tab-${TABS[next].tab}`)?.focus();
+    router.push(withLanguage(TABS[next].href));
+  };
+
+  const handleLanguageChange = (next: DictionaryLanguage) => {
+    // The selected word belongs to the previous dictionary, so the detail is closed
+    router.replace(withLanguage(TABS.find(tab => tab.tab === activeTab)!.href, next));
+  };
+
+  // Previous/next walk the word grid, so they are only offered when it is the visible tab
+  const selectedIndex = selectedWord && activeTab === "words" ? loadedWords.indexOf(selectedWord) : -1;
+  const prevWord = selectedIndex > 0 ? loadedWords[selectedIndex - 1] : null;
+  const nextWord = selectedIndex >= 0 && selectedIndex < loadedWords.length - 1 ? loadedWords[selectedIndex + 1] : null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <HeaderBar />
+      <div className="flex-1 flex flex-col items-center justify-start w-full px-2 md:px-8 py-6 relative">
+        {selectedWord && (
+          <div className="fixed top-20 left-8 z-20 w-[320px] max-w-xs">
+            <WordDetailBox
+              word={selectedWord}
+              language={language}
+              onPrev={prevWord ? () => openWord(prevWord) : undefined}
+              onNext={nextWord ? () => openWord(nextWord) : undefined}
+              onClose={() => router.push(activeTabHref)}
+              onCompare={() => openCompare([selectedWord])}
+              onRelatedWord={related => openCompare([selectedWord, related])}
+            />
+          </div>
+        )}
+        <div className="w-full max-w-5xl flex flex-row gap-8 h-full">
+          {!comparing && <div className="w-1/3 min-w-[260px] max-w-xs" />}
+          <div className="flex-1 flex flex-col">
+            <DictionaryLanguageSelect language={language} onChange={handleLanguageChange} />
+            <WordSearch
+              key={language}
+              language={language}
+              onSelect={word => (comparing ? openCompare(withComparedWord(compareWords, word)) : openWord(word))}
+              inputRef={searchInputRef}
+            />
+            {comparing ? (
+              <CompareView
+                words={compareWords}
+                language={language}
+                onRemove={word => openCompare(compareWords.filter(w => w !== word))}
+                onRelatedWord={(source, related) => openCompare(withRelatedWord(compareWords, source, related))}
+                onClose={() => router.push(activeTabHref)}
+              />
+            ) : (
+              <>
+                <div role="tablist" aria-label={t("tabs.label")} className="flex border-b mb-4" onKeyDown={handleTabKeyDown}>
+                  {TABS.map(tab => (
+                    <TabLink
+                      key={tab.tab}
+                      tab={tab.tab}
+                      label={t(tab.label)}
+                      active={activeTab === tab.tab}
+                      href={withLanguage(tab.href)}
+                    />
+                  ))}
+                </div>
+                <div role="tabpanel" id={TAB_PANEL_ID} aria-labelledby={`tab-${activeTab}`} className="flex-1 flex flex-col">
+                  {activeTab === "words" && (
+                    <WordGrid language={language} onWordClick={word => openWord(word)} selectedWord={selectedWord} />
+                  )}
+                  {activeTab === "favorites" && (
+                    <FavoritesList key={language} language={language} onWordClick={word => openWord(word, "favorites")} />
+                  )}
+                  {activeTab === "history" && (
+                    <HistoryList key={language} language={language} onWordClick={word => openWord(word, "history")} />
+                  )}
+                  {activeTab === "study" && (
+                    <StudyPanel key={language} language={language} />
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
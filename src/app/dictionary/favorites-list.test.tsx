@@ -0,0 +1,113 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { http } from "msw";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MOCK_BACKEND_URL } from "../../../mocks/handlers";
+import { server } from "../../../mocks/node";
+import { expectNoAxeViolations, renderWithProviders, signIn } from "../../test-utils";
+import { useFavoritesStore } from "../favorites-store";
+import FavoritesList from "./favorites-list";
+
+function wordsInTable() {
+  const rows = within(screen.getByRole("table")).getAllByRole("row").slice(1);
+  return rows.map(row => within(row).getAllByRole("button")[0].textContent);
+}
+
+describe("FavoritesList", () => {
+  beforeEach(async () => {
+    await signIn();
+    await useFavoritesStore.getState().loadFavorites();
+  });
+
+  it("lists the favorites, newest first", async () => {
+    renderWithProviders(<FavoritesList language="en" onWordClick={() => {}} />);
+
+    await screen.findByRole("table");
+    expect(wordsInTable()).toEqual(["serendipity", "courage"]);
+  });
+
+  it("has no accessibility violations, also while favorites are selected", async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithProviders(<FavoritesList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("table");
+    await expectNoAxeViolations(container);
+
+    await user.click(screen.getByRole("checkbox", { name: "Select \"courage\"" }));
+    await expectNoAxeViolations(container);
+  });
+
+  it("sorts and filters by tag", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<FavoritesList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("table");
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Sort" }), "word-asc");
+    await waitFor(() => expect(wordsInTable()).toEqual(["courage", "serendipity"]));
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Tag" }), "work");
+    await waitFor(() => expect(wordsInTable()).toEqual(["courage"]));
+  });
+
+  it("opens a word when it is clicked", async () => {
+    const user = userEvent.setup();
+    const onWordClick = vi.fn();
+    renderWithProviders(<FavoritesList language="en" onWordClick={onWordClick} />);
+
+    await user.click(await screen.findByRole("button", { name: "courage" }));
+    expect(onWordClick).toHaveBeenCalledWith("courage");
+  });
+
+  it("removes the selected favorites", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<FavoritesList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("table");
+
+    await user.click(screen.getByRole("checkbox", { name: "Select \"courage\"" }));
+    await user.click(screen.getByRole("button", { name: "Remove selected" }));
+
+    await waitFor(() => expect(wordsInTable()).toEqual(["serendipity"]));
+  });
+
+  it("hides a removed favorite before the server confirms it", async () => {
+    let release = () => {};
+    const held = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    server.use(http.patch(`${MOCK_BACKEND_URL}/dictionary/entries/en/courage/unfavorite`, () => held));
+    const user = userEvent.setup();
+    renderWithProviders(<FavoritesList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("table");
+
+    await user.click(screen.getByRole("button", { name: "Remove \"courage\" from favorites" }));
+
+    expect(wordsInTable()).toEqual(["serendipity"]);
+    release();
+    await waitFor(() => expect(useFavoritesStore.getState().revision).toBeGreaterThan(1));
+    expect(wordsInTable()).toEqual(["serendipity"]);
+  });
+
+  it("only sets tags once some are typed in", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<FavoritesList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("table");
+
+    await user.click(screen.getByRole("checkbox", { name: "Select \"courage\"" }));
+    const apply = screen.getByRole("button", { name: "Set tags" });
+    expect(apply).toBeDisabled();
+    await user.type(screen.getByRole("textbox", { name: "Tags, separated by commas" }), " , ");
+    expect(apply).toBeDisabled();
+  });
+
+  it("sets the tags of the selected favorites", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<FavoritesList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("table");
+
+    await user.click(screen.getByRole("checkbox", { name: "Select all on this page" }));
+    await user.type(screen.getByRole("textbox", { name: "Tags, separated by commas" }), "review, daily");
+    await user.click(screen.getByRole("button", { name: "Set tags" }));
+
+    await waitFor(() => expect(screen.getAllByRole("button", { name: "daily" })).toHaveLength(2));
+    expect(screen.queryByRole("button", { name: "GRE" })).not.toBeInTheDocument();
+  });
+});
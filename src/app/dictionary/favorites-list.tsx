@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { entryLanguage, fetchFavoritesPage } from "../api/services";
+import type { DictionaryLanguage, FavoritesPageApiResponse, FavoritesSortField, SortOrder } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import { config } from "../config";
+import { isSameFavorite, useFavoritesStore } from "../favorites-store";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+import { ExportMenu, ImportPanel } from "./word-transfer-panel";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: string; sort: FavoritesSortField; order: SortOrder; label: MessageKey }[] = [
+  { value: "added-desc", sort: "added", order: "desc", label: "favorites.sortNewest" },
+  { value: "added-asc", sort: "added", order: "asc", label: "favorites.sortOldest" },
+  { value: "word-asc", sort: "word", order: "asc", label: "favorites.sortAZ" },
+  { value: "word-desc", sort: "word", order: "desc", label: "favorites.sortZA" },
+];
+
+function parseTags(input: string) {
+  return [...new Set(input.split(",").map(tag => tag.trim()).filter(Boolean))];
+}
+
+export default function FavoritesList({ language, onWordClick }: { language: DictionaryLanguage; onWordClick: (word: string) => void }) {
+  const { t, formatDate } = useI18n();
+  const token = useAuthStore((state) => state.token);
+  const allFavorites = useFavoritesStore((state) => state.favorites);
+  const revision = useFavoritesStore((state) => state.revision);
+  const removeFavorites = useFavoritesStore((state) => state.removeFavorites);
+  const setTags = useFavoritesStore((state) => state.setTags);
+  const [page, setPage] = useState(1);
+  const [sortValue, setSortValue] = useState(SORT_OPTIONS[0].value);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState("");
+  const [data, setData] = useState<FavoritesPageApiResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | "">("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [tagInput, setTagInput] = useState("");
+  // Words removed from this page since it was fetched; they stay hidden unless the store rolls them back
+  const [removed, setRemoved] = useState<Set<string>>(new Set());
+
+  const { sort, order } = SORT_OPTIONS.find(option => option.value === sortValue)!;
+
+  const availableTags = useMemo(() => {
+    const tags = allFavorites.filter(fav => entryLanguage(fav) === language).flatMap(fav => fav.tags ?? []);
+    return [...new Set(tags)].sort((a, b) => a.localeCompare(b));
+  }, [allFavorites, language]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // A different query starts over on the first page with nothing selected
+  useEffect(() => {
+    setPage(1);
+    setSelected(new Set());
+  }, [sortValue, search, tag]);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    fetchFavoritesPage(token, { page, language, sort, order, search: search || undefined, tag: tag || undefined }, config.pageSizes.favorites)
+      .then(result => {
+        if (cancelled) return;
+        setData(result);
+        setRemoved(new Set());
+        setLoading(false);
+        // Removing the last favorites of the last page leaves it empty; step back to the new last page
+        if (result.results.length === 0 && result.page > 1) setPage(result.totalPages);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setError("favorites.error");
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, page, language, sort, order, search, tag, revision]);
+
+  const rows = useMemo(
+    () =>
+      (data?.results ?? []).filter(
+        fav => !removed.has(fav.word) || allFavorites.some(current => isSameFavorite(current, fav.word, language))
+      ),
+    [data, removed, allFavorites, language]
+  );
+  const newTags = parseTags(tagInput);
+  const allSelected = rows.length > 0 && rows.every(fav => selected.has(fav.word));
+
+  const toggleSelected = (word: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(word)) next.delete(word);
+      else next.add(word);
+      return next;
+    });
+  };
+
+  const handleRemove = (words: string[]) => {
+    removeFavorites(words, language);
+    setRemoved(prev => new Set([...prev, ...words]));
+    setSelected(prev => new Set([...prev].filter(word => !words.includes(word))));
+  };
+
+  const handleRetag = async (tags: string[]) => {
+    await setTags([...selected], language, tags);
+    setTagInput("");
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto w-full">
+      <div className="flex flex-col gap-2 mb-4">
+        {config.features.transfer && (
+          <>
+            <ExportMenu source="favorites" language={language} />
+            <ImportPanel language={language} />
+          </>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            placeholder={t("favorites.search")}
+            aria-label={t("favorites.search")}
+            className="flex-1 min-w-[160px] px-3 py-1 border border-line rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-foreground"
+          />
+          <select
+            value={sortValue}
+            onChange={e => setSortValue(e.target.value)}
+            aria-label={t("favorites.sort")}
+            className="px-2 py-1 border border-line rounded-md text-foreground bg-surface"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.label)}</option>
+            ))}
+          </select>
+          <select
+            value={tag}
+            onChange={e => setTag(e.target.value)}
+            aria-label={t("favorites.tag")}
+            className="px-2 py-1 border border-line rounded-md text-foreground bg-surface"
+          >
+            <option value="">{t("favorites.allTags")}</option>
+            {availableTags.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm bg-highlight-soft rounded-md px-3 py-2">
+            <span className="text-accent font-medium">{t("favorites.selected", { count: selected.size })}</span>
+            <button
+              type="button"
+              className="px-3 py-1 rounded-md border border-red-300 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/40"
+              onClick={() => handleRemove([...selected])}
+            >
+              {t("favorites.removeSelected")}
+            </button>
+            <input
+              type="text"
+              value={tagInput}
+              onChange={e => setTagInput(e.target.value)}
+              placeholder={t("favorites.tagsPlaceholder")}
+              aria-label={t("favorites.tagsPlaceholder")}
+              className="flex-1 min-w-[160px] px-3 py-1 border border-line rounded-md text-foreground bg-surface"
+            />
+            <button
+              type="button"
+              disabled={newTags.length === 0}
+              className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              onClick={() => handleRetag(newTags)}
+            >
+              {t("favorites.applyTags")}
+            </button>
+            <button
+              type="button"
+              className="px-3 py-1 rounded-md border border-line text-muted hover:bg-surface-hover"
+              onClick={() => handleRetag([])}
+            >
+              {t("favorites.clearTags")}
+            </button>
+          </div>
+        )}
+      </div>
+      {loading && !data && <div className="text-center py-4 text-indigo-500" role="status">{t("common.loading")}</div>}
+      {error && <div className="text-center py-4 text-red-500" role="alert">{t(error)}</div>}
+      {rows.length > 0 && (
+        <table className="w-full border-collapse bg-surface rounded-lg shadow-md">
+          <thead>
+            <tr>
+              <th className="border px-4 py-2 w-10">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  aria-label={t("favorites.selectAll")}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map(fav => fav.word)))}
+                />
+              </th>
+              <th className="border px-4 py-2 text-sm text-muted">{t("favorites.word")}</th>
+              <th className="border px-4 py-2 text-sm text-muted">{t("favorites.tags")}</th>
+              <th className="border px-4 py-2 text-sm text-muted">{t("favorites.added")}</th>
+              <th className="border px-4 py-2">
+                <span className="sr-only">{t("favorites.actions")}</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(fav => (
+              <tr key={fav.word} className={selected.has(fav.word) ? "bg-highlight-soft" : undefined}>
+                <td className="border px-4 py-3 text-center">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(fav.word)}
+                    aria-label={t("favorites.select", { word: fav.word })}
+                    onChange={() => toggleSelected(fav.word)}
+                  />
+                </td>
+                <td className="border px-4 py-3 text-center text-foreground text-base font-medium">
+                  <button type="button" className="hover:underline" onClick={() => onWordClick(fav.word)}>
+                    {fav.word}
+                  </button>
+                </td>
+                <td className="border px-4 py-3 text-center">
+                  <div className="flex flex-wrap justify-center gap-1">
+                    {fav.tags?.map(name => (
+                      <button
+                        key={name}
+                        type="button"
+                        className="px-2 py-0.5 rounded-full bg-highlight text-accent text-xs hover:bg-indigo-200 dark:hover:bg-indigo-800"
+                        onClick={() => setTag(name)}
+                      >
+                        {name}
+                      </button>
+                    ))}
+                  </div>
+                </td>
+                <td className="border px-4 py-3 text-center text-muted text-sm">{formatDate(fav.added)}</td>
+                <td className="border px-4 py-3 text-center">
+                  <button
+                    type="button"
+                    className="bg-red-100 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/60 rounded-full w-8 h-8 flex items-center justify-center"
+                    onClick={() => handleRemove([fav.word])}
+                    aria-label={t("favorites.removeWord", { word: fav.word })}
+                  >
+                    <span className="text-red-500 text-lg" aria-hidden="true">-</span>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {data && !loading && rows.length === 0 && (
+        <div className="text-center py-4 text-subtle text-sm">
+          {search || tag ? t("favorites.noMatches") : t("favorites.empty")}
+        </div>
+      )}
+      {data && data.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4 py-4 text-sm">
+          <button
+            type="button"
+            disabled={!data.hasPrev}
+            className="px-3 py-1 rounded-md border border-line text-muted hover:bg-surface-hover disabled:opacity-50"
+            onClick={() => setPage(data.page - 1)}
+          >
+            {t("favorites.prevPage")}
+          </button>
+          <span className="text-muted">{t("favorites.page", { page: data.page, total: data.totalPages })}</span>
+          <button
+            type="button"
+            disabled={!data.hasNext}
+            className="px-3 py-1 rounded-md border border-line text-muted hover:bg-surface-hover disabled:opacity-50"
+            onClick={() => setPage(data.page + 1)}
+          >
+            {t("favorites.nextPage")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Favorites",
+};
+
+// The favorites list is rendered by the dictionary layout; this route only selects its tab.
+export default function FavoritesPage() {
+  return null;
+}
@@ -0,0 +1,116 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { http, HttpResponse } from "msw";
+import { beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import { MOCK_BACKEND_URL } from "../../../mocks/handlers";
+import { server } from "../../../mocks/node";
+import { expectNoAxeViolations, renderWithProviders, signIn } from "../../test-utils";
+import { config } from "../config";
+import HistoryList from "./history-list";
+
+function daySection(label: string) {
+  return screen.getByRole("heading", { name: label }).closest("section")!;
+}
+
+describe("HistoryList", () => {
+  beforeEach(async () => {
+    await signIn();
+  });
+
+  it("groups lookups by day", async () => {
+    renderWithProviders(<HistoryList language="en" onWordClick={() => {}} />);
+
+    expect(await screen.findByRole("heading", { name: "Today" })).toBeInTheDocument();
+    expect(within(daySection("Today")).getAllByRole("row")).toHaveLength(3);
+    expect(within(daySection("Yesterday")).getByRole("button", { name: "courage" })).toBeInTheDocument();
+    // Lookups in other dictionaries stay out of the list
+    expect(screen.queryByRole("button", { name: "hola" })).not.toBeInTheDocument();
+  });
+
+  it("has no accessibility violations", async () => {
+    const { container } = renderWithProviders(<HistoryList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("heading", { name: "Today" });
+
+    await expectNoAxeViolations(container);
+  });
+
+  it("collapses repeated lookups of a word within a day", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<HistoryList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("heading", { name: "Today" });
+
+    await user.click(screen.getByRole("checkbox", { name: "Group repeated lookups" }));
+
+    const today = daySection("Today");
+    expect(within(today).getAllByRole("row")).toHaveLength(2);
+    expect(within(today).getByText("×2")).toBeInTheDocument();
+  });
+
+  it("filters by word", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<HistoryList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("heading", { name: "Today" });
+
+    await user.type(screen.getByRole("searchbox", { name: "Filter words" }), "ser");
+
+    expect(screen.getAllByRole("row")).toHaveLength(1);
+    expect(screen.getByRole("button", { name: "serendipity" })).toBeInTheDocument();
+  });
+
+  it("deletes an entry", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<HistoryList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("heading", { name: "Today" });
+
+    await user.click(screen.getByRole("button", { name: "Delete \"world\" from history" }));
+
+    await waitFor(() => expect(screen.queryByRole("button", { name: "world" })).not.toBeInTheDocument());
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("reloads from the first page after a deletion so no lookup is skipped", async () => {
+    const pageSize = config.pageSizes.history;
+    config.pageSizes.history = 2;
+    onTestFinished(() => {
+      config.pageSizes.history = pageSize;
+    });
+    const user = userEvent.setup();
+    renderWithProviders(<HistoryList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("heading", { name: "Today" });
+
+    await user.click(screen.getByRole("button", { name: "Delete \"world\" from history" }));
+
+    // The first page now holds both lookups of "hello"; the later one used to move to page one unseen
+    await waitFor(() => expect(within(daySection("Today")).getAllByRole("button", { name: "hello" })).toHaveLength(2));
+  });
+
+  it("brings back only the lookups the server failed to delete", async () => {
+    server.use(
+      http.delete(`${MOCK_BACKEND_URL}/user/me/history/hello`, ({ request }) => {
+        const added = new URL(request.url).searchParams.get("added");
+        if (added && new Date(added).getHours() === 7) return new HttpResponse(null, { status: 500 });
+      })
+    );
+    const user = userEvent.setup();
+    renderWithProviders(<HistoryList language="en" onWordClick={() => {}} />);
+    await screen.findByRole("heading", { name: "Today" });
+    await user.click(screen.getByRole("checkbox", { name: "Group repeated lookups" }));
+
+    await user.click(screen.getByRole("button", { name: "Delete \"hello\" from history" }));
+
+    // The list reloads once the other lookup is gone, so the day is looked up afresh
+    await waitFor(() => expect(within(daySection("Today")).getByRole("button", { name: "hello" })).toBeInTheDocument());
+    const today = daySection("Today");
+    expect(within(today).getAllByRole("row")).toHaveLength(2);
+    expect(within(today).queryByText("×2")).not.toBeInTheDocument();
+  });
+
+  it("opens a word when it is clicked", async () => {
+    const user = userEvent.setup();
+    const onWordClick = vi.fn();
+    renderWithProviders(<HistoryList language="en" onWordClick={onWordClick} />);
+
+    await user.click(await screen.findByRole("button", { name: "ocean" }));
+    expect(onWordClick).toHaveBeenCalledWith("ocean");
+  });
+});
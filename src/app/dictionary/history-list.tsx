@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { entryLanguage, fetchHistory } from "../api/services";
+import type { DictionaryLanguage, HistoryRange, HistoryWord } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import { config } from "../config";
+import { useHistoryStore } from "../history-store";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+import { dayKey } from "../local-days";
+import { useToastStore } from "../toast-store";
+import { ExportMenu } from "./word-transfer-panel";
+
+type HistoryRow = {
+  word: string;
+  /** Most recent lookup in the row; collapsed rows hold several lookups of the same word. */
+  latest: string;
+  entries: HistoryWord[];
+};
+
+type HistoryDay = {
+  key: string;
+  date: Date;
+  rows: HistoryRow[];
+};
+
+function entryKey(entry: HistoryWord) {
+  return `${entry.word}|${entry.added}`;
+}
+
+// Date inputs give local calendar days; the range covers both of them entirely
+function rangeFromInputs(from: string, to: string): HistoryRange {
+  return {
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+function groupByDay(entries: HistoryWord[], collapse: boolean): HistoryDay[] {
+  const days: HistoryDay[] = [];
+  for (const entry of entries) {
+    const date = new Date(entry.added);
+    const key = dayKey(date);
+    let day = days[days.length - 1];
+    if (!day || day.key !== key) {
+      day = { key, date, rows: [] };
+      days.push(day);
+    }
+    const row = collapse ? day.rows.find(r => r.word === entry.word) : undefined;
+    if (row) {
+      row.entries.push(entry);
+    } else {
+      day.rows.push({ word: entry.word, latest: entry.added, entries: [entry] });
+    }
+  }
+  return days;
+}
+
+function HistoryEntries({
+  language,
+  range,
+  filter,
+  collapse,
+  onWordClick,
+}: {
+  language: DictionaryLanguage;
+  range: HistoryRange;
+  filter: string;
+  collapse: boolean;
+  onWordClick: (word: string) => void;
+}) {
+  const { t, locale, formatDate } = useI18n();
+  const token = useAuthStore((state) => state.token);
+  const showToast = useToastStore((state) => state.showToast);
+  const deleteEntries = useHistoryStore((state) => state.deleteEntries);
+  const [history, setHistory] = useState<HistoryWord[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | "">("");
+  const observer = useRef<IntersectionObserver | null>(null);
+  // The sentinel sits below the list so paging keeps going even when the filter hides every row
+  const sentinelRef = useCallback(
+    (node: HTMLDivElement | null) => {
+      if (observer.current) observer.current.disconnect();
+      if (loading || !hasMore || !node) return;
+      observer.current = new IntersectionObserver(entries => {
+        if (entries[0].isIntersecting) setPage(prev => prev + 1);
+      });
+      observer.current.observe(node);
+    },
+    [loading, hasMore]
+  );
+
+  useEffect(() => {
+    if (!token || !hasMore) return;
+    setLoading(true);
+    setError("");
+    fetchHistory(token, page, config.pageSizes.history, language, range)
+      .then(data => {
+        setHistory(prev => [...prev, ...data.results.filter(item => entryLanguage(item) === language)]);
+        setHasMore(data.hasNext);
+        setLoading(false);
+      })
+      .catch(() => {
+        setError("history.error");
+        setLoading(false);
+      });
+  }, [token, page, hasMore, language, range]);
+
+  const days = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const visible = needle ? history.filter(item => item.word.toLowerCase().includes(needle)) : history;
+    return groupByDay(visible, collapse);
+  }, [history, filter, collapse]);
+
+  const dayFormat = useMemo(() => new Intl.DateTimeFormat(locale, { dateStyle: "full" }), [locale]);
+  const timeFormat = useMemo(() => new Intl.DateTimeFormat(locale, { timeStyle: "short" }), [locale]);
+
+  const dayLabel = (date: Date) => {
+    const today = new Date();
+    const yesterday = new Date(today);
+    yesterday.setDate(today.getDate() - 1);
+    if (dayKey(date) === dayKey(today)) return t("history.today");
+    if (dayKey(date) === dayKey(yesterday)) return t("history.yesterday");
+    return dayFormat.format(date);
+  };
+
+  const handleDelete = async (row: HistoryRow) => {
+    if (!token) return;
+    const removed = new Set(row.entries.map(entryKey));
+    setHistory(prev => prev.filter(item => !removed.has(entryKey(item))));
+    const results = await deleteEntries(row.entries);
+    const failed = row.entries.filter((_, idx) => results[idx].status === "rejected");
+    if (failed.length === 0) return;
+    // When some lookups were deleted the list reloads from the first page; when none were, they come back
+    setHistory(prev => {
+      const present = new Set(prev.map(entryKey));
+      const restored = failed.filter(entry => !present.has(entryKey(entry)));
+      return [...prev, ...restored].sort((a, b) => b.added.localeCompare(a.added));
+    });
+    showToast(t("history.deleteFailed", { word: row.word }), "error");
+  };
+
+  return (
+    <>
+      {error && <div className="text-center py-4 text-red-500" role="alert">{t(error)}</div>}
+      {days.map(day => (
+        <section key={day.key} className="mb-4">
+          <h3 className="text-sm font-semibold text-muted mb-2">{dayLabel(day.date)}</h3>
+          <table className="w-full border-collapse bg-surface rounded-lg shadow-md">
+            <tbody>
+              {day.rows.map(row => (
+                <tr key={entryKey(row.entries[0])} className="hover:bg-highlight-soft">
+                  <td className="border px-4 py-3 text-center text-foreground text-base font-medium">
+                    <button type="button" className="hover:underline" onClick={() => onWordClick(row.word)}>
+                      {row.word}
+                    </button>
+                    {row.entries.length > 1 && (
+                      <span className="ml-2 text-xs text-accent">{t("history.lookups", { count: row.entries.length })}</span>
+                    )}
+                  </td>
+                  <td className="border px-4 py-3 text-center text-muted text-sm" title={formatDate(row.latest)}>
+                    {timeFormat.format(new Date(row.latest))}
+                  </td>
+                  <td className="border px-4 py-3 text-center w-12">
+                    <button
+                      type="button"
+                      className="bg-red-100 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/60 rounded-full w-8 h-8 flex items-center justify-center"
+                      onClick={() => handleDelete(row)}
+                      aria-label={t("history.delete", { word: row.word })}
+                    >
+                      <span className="text-red-500 text-lg" aria-hidden="true">×</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+      {loading && <div className="text-center py-4 text-indigo-500" role="status">{t("common.loading")}</div>}
+      {!loading && history.length === 0 && (
+        <div className="text-center py-4 text-subtle text-sm">{t("history.empty")}</div>
+      )}
+      {!loading && history.length > 0 && days.length === 0 && (
+        <div className="text-center py-4 text-subtle text-sm">{t("history.noMatches")}</div>
+      )}
+      <div ref={sentinelRef} className="h-1" />
+    </>
+  );
+}
+
+export default function HistoryList({ language, onWordClick }: { language: DictionaryLanguage; onWordClick: (word: string) => void }) {
+  const { t } = useI18n();
+  const token = useAuthStore((state) => state.token);
+  const showToast = useToastStore((state) => state.showToast);
+  const [filter, setFilter] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [collapse, setCollapse] = useState(false);
+  // Bumped after deleting or clearing, here or in another tab, so the entries reload from the first page
+  const revision = useHistoryStore((state) => state.revision);
+  const clearHistory = useHistoryStore((state) => state.clearHistory);
+  const range = useMemo(() => rangeFromInputs(from, to), [from, to]);
+
+  const handleClear = async () => {
+    if (!token || !window.confirm(t("history.clearConfirm"))) return;
+    try {
+      await clearHistory();
+    } catch {
+      showToast(t("history.clearFailed"), "error");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto w-full">
+      <div className="flex flex-col gap-2 mb-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="search"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder={t("history.filter")}
+            aria-label={t("history.filter")}
+            className="flex-1 min-w-[160px] px-3 py-1 border border-line rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-foreground"
+          />
+          <label className="flex items-center gap-1 text-muted">
+            {t("history.from")}
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={e => setFrom(e.target.value)}
+              className="px-2 py-1 border border-line rounded-md text-foreground"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-muted">
+            {t("history.to")}
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={e => setTo(e.target.value)}
+              className="px-2 py-1 border border-line rounded-md text-foreground"
+            />
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <label className="flex items-center gap-2 text-muted">
+            <input type="checkbox" checked={collapse} onChange={e => setCollapse(e.target.checked)} />
+            {t("history.collapse")}
+          </label>
+          <div className="flex items-center gap-2">
+            {config.features.transfer && <ExportMenu source="history" language={language} />}
+            <button
+              type="button"
+              className="px-3 py-1 rounded-md border border-red-300 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/40"
+              onClick={handleClear}
+            >
+              {t("history.clear")}
+            </button>
+          </div>
+        </div>
+      </div>
+      <HistoryEntries
+        key={`${range.from}|${range.to}|${revision}`}
+        language={language}
+        range={range}
+        filter={filter}
+        collapse={collapse}
+        onWordClick={onWordClick}
+      />
+    </div>
+  );
+}
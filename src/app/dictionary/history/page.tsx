@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "History",
+};
+
+// The history list is rendered by the dictionary layout; this route only selects its tab.
+export default function HistoryPage() {
+  return null;
+}
@@ -0,0 +1,18 @@
+import { AuthGuard } from "../auth-guard";
+import ErrorBoundary from "../telemetry/error-boundary";
+import DictionaryView from "./dictionary-view";
+
+export default function DictionaryLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <AuthGuard>
+      <ErrorBoundary name="dictionary">
+        <DictionaryView />
+      </ErrorBoundary>
+      {children}
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { entryLanguage, fetchWordDetail } from "../api/services";
+import type { DictionaryLanguage, WordDetail } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import { useFavoritesStore } from "../favorites-store";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+import { GRADES, isDue, retentionRate, reviewStreak, type Grade } from "../spaced-repetition";
+import StatCard from "../stat-card";
+import { selectUserStudyData, studyCardKey, useStudyStore } from "../study-store";
+
+const GRADE_STYLES: Record<Grade, string> = {
+  again: "bg-red-500 hover:bg-red-600",
+  hard: "bg-orange-500 hover:bg-orange-600",
+  good: "bg-green-600 hover:bg-green-700",
+  easy: "bg-indigo-500 hover:bg-indigo-600",
+};
+
+function Flashcard({ word, language, onGrade }: { word: string; language: DictionaryLanguage; onGrade: (grade: Grade) => void }) {
+  const { t } = useI18n();
+  const token = useAuthStore((state) => state.token);
+  const [detail, setDetail] = useState<WordDetail | null>(null);
+  const [error, setError] = useState<MessageKey | "">("");
+  const [revealed, setRevealed] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetchWordDetail(word, token, language, { recordLookup: false })
+      .then(data => {
+        if (!cancelled) setDetail(data.results[0] ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setError("detail.error");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [word, token, language]);
+
+  const phonetic = detail?.phonetics.find(p => p.text)?.text;
+
+  return (
+    <div className="bg-surface rounded-lg shadow-md p-6 flex flex-col items-center gap-4">
+      <div className="text-3xl font-bold text-foreground">{word}</div>
+      {phonetic && <div className="text-accent">{phonetic}</div>}
+      {!revealed && (
+        <button
+          type="button"
+          className="px-4 py-2 rounded-md bg-indigo-500 text-white hover:bg-indigo-600"
+          onClick={() => setRevealed(true)}
+        >
+          {t("study.showAnswer")}
+        </button>
+      )}
+      {revealed && (
+        <>
+          <div className="w-full border-t pt-4">
+            {!detail && !error && <div className="text-indigo-500" role="status">{t("common.loading")}</div>}
+            {error && <div className="text-red-500" role="alert">{t(error)}</div>}
+            {detail?.meanings.map((meaning, idx) => (
+              <div key={idx} className="mb-2">
+                <span className="italic text-accent mr-2">{meaning.partOfSpeech}</span>
+                <span className="text-foreground">{meaning.definitions[0]?.definition}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {GRADES.map(grade => (
+              <button
+                key={grade}
+                type="button"
+                className={`px-4 py-2 rounded-md text-white ${GRADE_STYLES[grade]}`}
+                onClick={() => onGrade(grade)}
+              >
+                {t(`study.grade.${grade}`)}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function StudyPanel({ language }: { language: DictionaryLanguage }) {
+  const { t } = useI18n();
+  const userId = useAuthStore((state) => state.user?.id);
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const studyData = useStudyStore((state) => selectUserStudyData(state, userId));
+  const recordReview = useStudyStore((state) => state.recordReview);
+  const [queue, setQueue] = useState<string[] | null>(null);
+  const [reviewCount, setReviewCount] = useState(0);
+
+  const words = useMemo(
+    () => favorites.filter(fav => entryLanguage(fav) === language).map(fav => fav.word),
+    [favorites, language]
+  );
+  const dueWords = words.filter(word => isDue(studyData.cards[studyCardKey(word, language)]));
+  const retention = retentionRate(studyData.log);
+  const today = new Date().toDateString();
+  const reviewedToday = studyData.log.filter(entry => new Date(entry.reviewedAt).toDateString() === today).length;
+
+  const handleGrade = (grade: Grade) => {
+    if (!queue || !userId) return;
+    const [current, ...rest] = queue;
+    recordReview(userId, studyCardKey(current, language), grade);
+    // Forgotten cards go to the back of the session so they are seen again before it ends
+    setQueue(grade === "again" ? [...rest, current] : rest);
+    setReviewCount(count => count + 1);
+  };
+
+  if (queue && queue.length > 0) {
+    return (
+      <div className="flex-1 w-full flex flex-col gap-4">
+        <div className="text-sm text-muted text-right">{t("study.remaining", { count: queue.length })}</div>
+        <Flashcard key={reviewCount} word={queue[0]} language={language} onGrade={handleGrade} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 w-full flex flex-col gap-4">
+      {queue && (
+        <div className="text-center text-green-700 font-medium" role="status">{t("study.finished")}</div>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label={t("study.due")} value={dueWords.length} />
+        <StatCard label={t("study.reviewedToday")} value={reviewedToday} />
+        <StatCard label={t("study.streak")} value={reviewStreak(studyData.log)} />
+        <StatCard label={t("study.retention")} value={retention === null ? "—" : `${Math.round(retention * 100)}%`} />
+      </div>
+      {dueWords.length === 0 ? (
+        <div className="text-center py-4 text-subtle text-sm">{t("study.noneDue")}</div>
+      ) : (
+        <button
+          type="button"
+          className="self-center px-6 py-2 rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+          onClick={() => setQueue(dueWords)}
+        >
+          {t("study.start")}
+        </button>
+      )}
+    </div>
+  );
+}
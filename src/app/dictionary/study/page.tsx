@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { config } from "../../config";
+
+export const metadata: Metadata = {
+  title: "Study",
+};
+
+// The study mode is rendered by the dictionary layout; this route only selects its tab.
+export default function StudyPage() {
+  if (!config.features.study) redirect("/dictionary");
+  return null;
+}
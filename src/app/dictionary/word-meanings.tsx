@@ -0,0 +1,71 @@
+"use client";
+
+import type { WordDetail } from "../api/types";
+import { useI18n } from "../i18n/i18n-provider";
+
+type Meaning = WordDetail["meanings"][number];
+
+function WordList({ label, words, onWordClick }: { label: string; words?: string[]; onWordClick?: (word: string) => void }) {
+  if (!words || words.length === 0) return null;
+  return (
+    <div className="text-sm text-muted">
+      <span className="font-medium">{label}:</span>{" "}
+      {onWordClick
+        ? words.map((word, idx) => (
+            <span key={word}>
+              {idx > 0 && ", "}
+              <button type="button" className="text-accent hover:underline" onClick={() => onWordClick(word)}>
+                {word}
+              </button>
+            </span>
+          ))
+        : words.join(", ")}
+    </div>
+  );
+}
+
+/** The definitions and examples of one meaning, followed by its synonyms and antonyms. */
+export function MeaningDefinitions({ meaning, onWordClick }: { meaning: Meaning; onWordClick?: (word: string) => void }) {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <ol className="list-decimal list-inside space-y-1">
+        {meaning.definitions.map((def, defIdx) => (
+          <li key={defIdx} className="text-foreground">
+            {def.definition}
+            {def.example && (
+              <div className="ml-4 text-sm italic text-muted">&ldquo;{def.example}&rdquo;</div>
+            )}
+            <div className="ml-4">
+              <WordList label={t("detail.synonyms")} words={def.synonyms} onWordClick={onWordClick} />
+              <WordList label={t("detail.antonyms")} words={def.antonyms} onWordClick={onWordClick} />
+            </div>
+          </li>
+        ))}
+      </ol>
+      <WordList label={t("detail.synonyms")} words={meaning.synonyms} onWordClick={onWordClick} />
+      <WordList label={t("detail.antonyms")} words={meaning.antonyms} onWordClick={onWordClick} />
+    </>
+  );
+}
+
+/**
+ * Every part of speech of a word with its definitions, examples, synonyms and antonyms.
+ * With `onWordClick`, synonyms and antonyms become buttons that open the related word.
+ */
+export default function WordMeanings({ detail, onWordClick }: { detail: WordDetail; onWordClick?: (word: string) => void }) {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full">
+      <div className="font-semibold text-muted mb-1">{t("detail.meanings")}</div>
+      {detail.meanings.map((meaning, idx) => (
+        <div key={idx} className="mb-3">
+          <div className="italic text-accent">{meaning.partOfSpeech}</div>
+          <MeaningDefinitions meaning={meaning} onWordClick={onWordClick} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_DICTIONARY_LANGUAGE } from "../api/services";
+import type { DictionaryLanguage } from "../api/types";
+
+/**
+ * Decodes the `word` segment, which Next hands back percent-encoded both in server
+ * `params` and from useParams. Call it exactly once per read: decoding again would
+ * turn a word such as "100%25" into "100%". Malformed segments are returned as is.
+ */
+export function decodeWordParam(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/** Link to a word's detail, naming the dictionary in `?lang=` unless it is the default one. */
+export function wordPath(word: string, language: DictionaryLanguage) {
+  const path = `/dictionary/word/${encodeURIComponent(word)}`;
+  return language === DEFAULT_DICTIONARY_LANGUAGE ? path : `${path}?lang=${language}`;
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { isApiError } from "../api/http";
+import { entryLanguage, fetchHistory, fetchWordDetail } from "../api/services";
+import type { DictionaryLanguage } from "../api/types";
+import { useAuthStore } from "../auth-store";
+import { useFavoritesStore } from "../favorites-store";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+import { reportError } from "../telemetry/telemetry";
+import {
+  ankiBack,
+  downloadFile,
+  parseWordList,
+  runRateLimited,
+  toAnkiDeck,
+  toCsv,
+  toJson,
+  type ExportFormat,
+  type ExportRow,
+} from "../word-transfer";
+
+// Bulk requests are spaced out so an import or a deck export doesn't flood the backend
+const TRANSFER_INTERVAL_MS = 250;
+// History is read in large batches for export, independent of the page size of the history tab
+const HISTORY_BATCH_SIZE = 100;
+// Upper bound on the history read for one export; anything past it is left out and the user told so
+const MAX_HISTORY_PAGES = 100;
+
+const EXPORT_FORMATS: { format: ExportFormat; label: MessageKey }[] = [
+  { format: "csv", label: "transfer.exportCsv" },
+  { format: "json", label: "transfer.exportJson" },
+  { format: "anki", label: "transfer.exportAnki" },
+];
+
+type Progress = { done: number; total: number };
+
+/** Reads the history for export. `complete` is false when it stopped at `MAX_HISTORY_PAGES`. */
+async function loadAllHistory(token: string, language: DictionaryLanguage): Promise<{ rows: ExportRow[]; complete: boolean }> {
+  const rows: ExportRow[] = [];
+  for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+    const data = await fetchHistory(token, page, HISTORY_BATCH_SIZE, language);
+    rows.push(
+      ...data.results
+        .filter(item => entryLanguage(item) === language)
+        .map(item => ({ word: item.word, added: item.added, language }))
+    );
+    if (!data.hasNext) return { rows, complete: true };
+  }
+  return { rows, complete: false };
+}
+
+export function ExportMenu({ source, language }: { source: "favorites" | "history"; language: DictionaryLanguage }) {
+  const { t } = useI18n();
+  const token = useAuthStore((state) => state.token);
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<MessageKey | "">("");
+  const [truncatedAt, setTruncatedAt] = useState<number | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!token || progress) return;
+    setError("");
+    setTruncatedAt(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const { rows, complete } =
+        source === "favorites"
+          ? {
+              rows: favorites.filter(fav => entryLanguage(fav) === language).map(fav => ({ word: fav.word, added: fav.added, language })),
+              complete: true,
+            }
+          : await loadAllHistory(token, language);
+      if (!complete) setTruncatedAt(rows.length);
+      const baseName = `${source}-${language}`;
+      if (format === "csv") {
+        downloadFile(`${baseName}.csv`, toCsv(rows), "text/csv");
+      } else if (format === "json") {
+        downloadFile(`${baseName}.json`, toJson(rows), "application/json");
+      } else {
+        const words = [...new Set(rows.map(row => row.word))];
+        setProgress({ done: 0, total: words.length });
+        const details = await runRateLimited(words, word => fetchWordDetail(word, token, language, { recordLookup: false }), {
+          intervalMs: TRANSFER_INTERVAL_MS,
+          onProgress: done => setProgress({ done, total: words.length }),
+        });
+        // Words whose definition can't be fetched still get a card, with an empty back
+        const cards = words.map((word, idx) => {
+          const result = details[idx];
+          return { word, back: result.status === "fulfilled" ? ankiBack(result.value.results[0] ?? null) : "" };
+        });
+        downloadFile(`${baseName}-anki.txt`, toAnkiDeck(cards), "text/tab-separated-values");
+      }
+    } catch (err) {
+      // Failed requests are already reported by the API client
+      if (!isApiError(err)) reportError(err, "export", { source, format });
+      setError("transfer.exportFailed");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-muted">{t("transfer.export")}</span>
+      {EXPORT_FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          disabled={!!progress}
+          className="px-3 py-1 rounded-md border border-indigo-300 text-accent hover:bg-highlight-soft disabled:opacity-50"
+          onClick={() => handleExport(format)}
+        >
+          {t(label)}
+        </button>
+      ))}
+      {progress && progress.total > 0 && (
+        <span className="text-indigo-500" role="status">{t("transfer.exporting", progress)}</span>
+      )}
+      {error && <span className="text-red-500" role="alert">{t(error)}</span>}
+      {truncatedAt !== null && (
+        <span className="text-orange-600" role="status">{t("transfer.exportTruncated", { count: truncatedAt })}</span>
+      )}
+    </div>
+  );
+}
+
+type ImportPreview = {
+  newWords: string[];
+  unknown: string[];
+  duplicates: string[];
+};
+
+export function ImportPanel({ language }: { language: DictionaryLanguage }) {
+  const { t } = useI18n();
+  const token = useAuthStore((state) => state.token);
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const addFavorites = useFavoritesStore((state) => state.addFavorites);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<(Progress & { label: MessageKey }) | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<MessageKey | "">("");
+  const [result, setResult] = useState<{ added: number; failed: number } | null>(null);
+
+  const handleFile = async (file: File) => {
+    if (!token) return;
+    setError("");
+    setResult(null);
+    setPreview(null);
+
+    let words: string[];
+    try {
+      words = parseWordList(await file.text(), file.name);
+    } catch {
+      setError("transfer.invalidFile");
+      return;
+    }
+    if (words.length === 0) {
+      setError("transfer.invalidFile");
+      return;
+    }
+
+    const seen = new Set(
+      favorites.filter(fav => entryLanguage(fav) === language).map(fav => fav.word.toLowerCase())
+    );
+    const candidates: string[] = [];
+    const duplicates: string[] = [];
+    for (const word of words) {
+      if (seen.has(word.toLowerCase())) {
+        duplicates.push(word);
+      } else {
+        seen.add(word.toLowerCase());
+        candidates.push(word);
+      }
+    }
+
+    setProgress({ done: 0, total: candidates.length, label: "transfer.checking" });
+    const checks = await runRateLimited(candidates, word => fetchWordDetail(word, token, language, { recordLookup: false }), {
+      intervalMs: TRANSFER_INTERVAL_MS,
+      onProgress: done => setProgress({ done, total: candidates.length, label: "transfer.checking" }),
+    });
+    setProgress(null);
+
+    const newWords: string[] = [];
+    const unknown: string[] = [];
+    for (const [idx, check] of checks.entries()) {
+      if (check.status === "fulfilled") {
+        newWords.push(candidates[idx]);
+      } else if (isApiError(check.reason, "not_found")) {
+        unknown.push(candidates[idx]);
+      } else {
+        setError("transfer.checkFailed");
+        return;
+      }
+    }
+    setPreview({ newWords, unknown, duplicates });
+  };
+
+  const handleConfirm = async () => {
+    if (!token || !preview) return;
+    const { newWords } = preview;
+    setPreview(null);
+    setProgress({ done: 0, total: newWords.length, label: "transfer.importing" });
+    const imported = await addFavorites(newWords, language, {
+      intervalMs: TRANSFER_INTERVAL_MS,
+      onProgress: done => setProgress({ done, total: newWords.length, label: "transfer.importing" }),
+    });
+    setProgress(null);
+    setResult(imported);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          aria-label={t("transfer.import")}
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) handleFile(file);
+          }}
+        />
+        <button
+          type="button"
+          disabled={!!progress}
+          className="px-3 py-1 rounded-md border border-indigo-300 text-accent hover:bg-highlight-soft disabled:opacity-50"
+          onClick={() => inputRef.current?.click()}
+        >
+          {t("transfer.import")}
+        </button>
+        {progress && (
+          <span className="text-indigo-500" role="status">{t(progress.label, { done: progress.done, total: progress.total })}</span>
+        )}
+        {error && <span className="text-red-500" role="alert">{t(error)}</span>}
+        {result && (
+          <span className="text-green-700" role="status">
+            {t("transfer.imported", { count: result.added })}
+            {result.failed > 0 && <span className="text-red-500 ml-2">{t("transfer.importFailed", { count: result.failed })}</span>}
+          </span>
+        )}
+      </div>
+      {preview && (
+        <div className="bg-surface rounded-lg shadow-md p-4 flex flex-col gap-2">
+          <div className="font-medium text-foreground">{t("transfer.newWords", { count: preview.newWords.length })}</div>
+          {preview.unknown.length > 0 && (
+            <div>
+              <div className="text-red-600">{t("transfer.unknownWords", { count: preview.unknown.length })}</div>
+              <div className="text-muted">{preview.unknown.join(", ")}</div>
+            </div>
+          )}
+          {preview.duplicates.length > 0 && (
+            <div>
+              <div className="text-orange-600">{t("transfer.duplicateWords", { count: preview.duplicates.length })}</div>
+              <div className="text-muted">{preview.duplicates.join(", ")}</div>
+            </div>
+          )}
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              className="px-3 py-1 rounded-md border border-line text-muted hover:bg-surface-hover"
+              onClick={() => setPreview(null)}
+            >
+              {t("transfer.cancel")}
+            </button>
+            <button
+              type="button"
+              disabled={preview.newWords.length === 0}
+              className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              onClick={handleConfirm}
+            >
+              {t("transfer.confirm")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { Metadata } from "next";
+import { request } from "../../../api/http";
+import { DEFAULT_DICTIONARY_LANGUAGE, isDictionaryLanguage } from "../../../api/services";
+import type { WordDetailApiResponse } from "../../../api/types";
+import { translate } from "../../../i18n/locales";
+import { resolveLocale } from "../../../i18n/request-locale";
+import { decodeWordParam } from "../../word-route";
+
+type WordPageProps = {
+  params: Promise<{ word: string }>;
+  searchParams: Promise<{ lang?: string }>;
+};
+
+const METADATA_TIMEOUT_MS = 3000;
+
+async function fetchFirstDefinition(word: string, language: string): Promise<string | null> {
+  try {
+    const data = await request<WordDetailApiResponse>(`/dictionary/entries/${language}/${encodeURIComponent(word)}`, {
+      timeoutMs: METADATA_TIMEOUT_MS,
+      retries: 0,
+    });
+    return data.results[0]?.meanings[0]?.definitions[0]?.definition ?? null;
+  } catch {
+    // Metadata is best effort; the page still renders when the backend is slow or requires a token
+    return null;
+  }
+}
+
+export async function generateMetadata({ params, searchParams }: WordPageProps): Promise<Metadata> {
+  const word = decodeWordParam((await params).word);
+  const { lang } = await searchParams;
+  const language = isDictionaryLanguage(lang) ? lang : DEFAULT_DICTIONARY_LANGUAGE;
+  const definition = await fetchFirstDefinition(word, language);
+  const description = definition ?? translate(await resolveLocale(), "detail.metaDescription", { word });
+
+  return {
+    title: word,
+    description,
+    openGraph: {
+      type: "article",
+      title: word,
+      description,
+    },
+  };
+}
+
+// The word detail is rendered by the dictionary layout from this route's `word` param.
+export default function WordPage() {
+  return null;
+}
@@ -0,0 +1,77 @@
+import { waitFor } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { beforeEach, describe, expect, it } from "vitest";
+import { MOCK_BACKEND_URL } from "../../mocks/handlers";
+import { server } from "../../mocks/node";
+import { signIn } from "../test-utils";
+import { useAuthStore } from "./auth-store";
+import { useFavoritesStore } from "./favorites-store";
+
+/** Holds every request to favorite "abandon" until the returned release function is called. */
+function holdFavoriteRequest() {
+  let release = () => {};
+  const held = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  // Resolving without a response falls through to the mock backend
+  server.use(http.patch(`${MOCK_BACKEND_URL}/dictionary/entries/en/abandon/favorite`, () => held));
+  return release;
+}
+
+function favoriteWords() {
+  return useFavoritesStore.getState().favorites.map((fav) => fav.word);
+}
+
+describe("useFavoritesStore", () => {
+  beforeEach(async () => {
+    await signIn();
+    await useFavoritesStore.getState().loadFavorites();
+  });
+
+  it("keeps a toggle still in flight when the favorites are reloaded", async () => {
+    const release = holdFavoriteRequest();
+
+    useFavoritesStore.getState().toggleFavorite("abandon", "en");
+    await useFavoritesStore.getState().loadFavorites();
+    expect(favoriteWords()).toContain("abandon");
+
+    release();
+    await waitFor(() => expect(useFavoritesStore.getState().revision).toBeGreaterThan(2));
+    expect(favoriteWords()).toContain("abandon");
+  });
+
+  it("reads every page of the paginated favorites endpoint", async () => {
+    server.use(
+      http.get(`${MOCK_BACKEND_URL}/user/me/favorites`, ({ request }) => {
+        const page = Number(new URL(request.url).searchParams.get("page"));
+        const word = page === 1 ? "courage" : "ocean";
+        return HttpResponse.json({
+          results: [{ word, language: "en", added: "2026-05-20T12:00:00.000Z" }],
+          totalDocs: 2,
+          page,
+          totalPages: 2,
+          hasNext: page < 2,
+          hasPrev: page > 1,
+        });
+      })
+    );
+    useAuthStore.getState().clearSession();
+    await signIn();
+
+    await useFavoritesStore.getState().loadFavorites();
+    expect(favoriteWords()).toEqual(["courage", "ocean"]);
+  });
+
+  it("does not carry a pending toggle over into another user's session", async () => {
+    const release = holdFavoriteRequest();
+    useFavoritesStore.getState().toggleFavorite("abandon", "en");
+
+    useAuthStore.getState().clearSession();
+    await signIn("alan@example.com");
+    await useFavoritesStore.getState().loadFavorites();
+    release();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(favoriteWords()).not.toContain("abandon");
+  });
+});
@@ -0,0 +1,224 @@
+import { create } from "zustand";
+import { addFavorite, entryLanguage, fetchFavorites, invalidateFavorites, removeFavorite, setFavoriteTags } from "./api/services";
+import type { DictionaryLanguage, FavoriteWord } from "./api/types";
+import { useAuthStore } from "./auth-store";
+import type { MessageKey } from "./i18n/en";
+import { getCurrentLocale, translate } from "./i18n/locales";
+import { postTabMessage, subscribeToTabMessages } from "./tab-sync";
+import { useToastStore } from "./toast-store";
+import { runRateLimited } from "./word-transfer";
+
+type FavoritesState = {
+  favorites: FavoriteWord[];
+  /** Bumped whenever the server's favorites may have changed, so paged views know to refetch. */
+  revision: number;
+  loading: boolean;
+  error: MessageKey | "";
+  loadFavorites: () => Promise<void>;
+  toggleFavorite: (word: string, language: DictionaryLanguage) => void;
+  removeFavorites: (words: string[], language: DictionaryLanguage) => void;
+  /**
+   * Favorites every word in `words` at once and sends the requests one at a time,
+   * at least `intervalMs` apart. Resolves with how many the server accepted.
+   */
+  addFavorites: (
+    words: string[],
+    language: DictionaryLanguage,
+    options: { intervalMs: number; onProgress?: (done: number) => void }
+  ) => Promise<{ added: number; failed: number }>;
+  setTags: (words: string[], language: DictionaryLanguage, tags: string[]) => Promise<void>;
+  reset: () => void;
+};
+
+type DesiredFavorite = { word: string; language: DictionaryLanguage; favorite: boolean };
+
+// Latest favorite state the user asked for, per word and language, while a request for it is in flight
+const desired = new Map<string, DesiredFavorite>();
+const syncing = new Set<string>();
+
+function favoriteKey(word: string, language: DictionaryLanguage) {
+  return `${language}:${word}`;
+}
+
+export function isSameFavorite(fav: FavoriteWord, word: string, language: DictionaryLanguage) {
+  return fav.word === word && entryLanguage(fav) === language;
+}
+
+function withFavorite(favorites: FavoriteWord[], entry: FavoriteWord | null, word: string, language: DictionaryLanguage) {
+  const rest = favorites.filter((fav) => !isSameFavorite(fav, word, language));
+  return entry ? [...rest, entry] : rest;
+}
+
+/** Re-applies toggles still in flight on top of `favorites` freshly loaded from the server. */
+function withPendingToggles(favorites: FavoriteWord[], current: FavoriteWord[]) {
+  let merged = favorites;
+  for (const { word, language, favorite } of desired.values()) {
+    const entry = favorite
+      ? current.find((fav) => isSameFavorite(fav, word, language)) ?? { word, language, added: new Date().toISOString() }
+      : null;
+    merged = withFavorite(merged, entry, word, language);
+  }
+  return merged;
+}
+
+export const useFavoritesStore = create<FavoritesState>()((set, get) => {
+  // Sends toggles for `word` until the server matches the latest desired state, so a
+  // burst of clicks results in at most one request in flight and no out-of-order writes.
+  // Resolves with false when a request failed and the word was rolled back.
+  const sync = async (
+    word: string,
+    language: DictionaryLanguage,
+    token: string,
+    confirmed: FavoriteWord | null,
+    { quiet = false } = {}
+  ): Promise<boolean> => {
+    const key = favoriteKey(word, language);
+    // Signing out clears the pending toggles; whatever this loop was doing belongs to the old session
+    const isCurrentSession = () => useAuthStore.getState().token === token;
+    syncing.add(key);
+    try {
+      while (isCurrentSession() && desired.get(key)?.favorite !== !!confirmed) {
+        const target = desired.get(key)!.favorite;
+        if (target) {
+          await addFavorite(word, token, language);
+          confirmed = get().favorites.find((fav) => isSameFavorite(fav, word, language)) ?? { word, language, added: new Date().toISOString() };
+        } else {
+          await removeFavorite(word, token, language);
+          confirmed = null;
+        }
+      }
+      if (isCurrentSession()) postTabMessage({ type: "favorite", word, language, entry: confirmed });
+      return true;
+    } catch {
+      if (!isCurrentSession()) return false;
+      set((state) => ({ favorites: withFavorite(state.favorites, confirmed, word, language) }));
+      if (!quiet) {
+        useToastStore.getState().showToast(
+          translate(getCurrentLocale(), confirmed ? "favorites.removeFailed" : "favorites.addFailed", { word }),
+          "error"
+        );
+      }
+      return false;
+    } finally {
+      if (isCurrentSession()) {
+        desired.delete(key);
+        syncing.delete(key);
+        set((state) => ({ revision: state.revision + 1 }));
+      }
+    }
+  };
+
+  const setFavorite = (word: string, language: DictionaryLanguage, favorite: boolean) => {
+    const token = useAuthStore.getState().token;
+    if (!token) return;
+    const current = get().favorites.find((fav) => isSameFavorite(fav, word, language)) ?? null;
+    if (!!current === favorite) return;
+    const next = favorite ? { word, language, added: new Date().toISOString() } : null;
+    set((state) => ({ favorites: withFavorite(state.favorites, next, word, language) }));
+    const key = favoriteKey(word, language);
+    desired.set(key, { word, language, favorite });
+    if (!syncing.has(key)) sync(word, language, token, current);
+  };
+
+  return {
+    favorites: [],
+    revision: 0,
+    loading: false,
+    error: "",
+    loadFavorites: async () => {
+      const token = useAuthStore.getState().token;
+      if (!token) return;
+      set({ loading: true, error: "" });
+      try {
+        const data = await fetchFavorites(token);
+        if (useAuthStore.getState().token !== token) return;
+        // The server has not seen toggles still in flight; dropping them would flip those words back
+        set((state) => ({
+          favorites: withPendingToggles(data.results, state.favorites),
+          loading: false,
+          revision: state.revision + 1,
+        }));
+      } catch {
+        if (useAuthStore.getState().token !== token) return;
+        set({ error: "favorites.error", loading: false });
+      }
+    },
+    toggleFavorite: (word, language) => {
+      const current = get().favorites.some((fav) => isSameFavorite(fav, word, language));
+      setFavorite(word, language, !current);
+    },
+    removeFavorites: (words, language) => {
+      words.forEach((word) => setFavorite(word, language, false));
+    },
+    addFavorites: async (words, language, { intervalMs, onProgress }) => {
+      const token = useAuthStore.getState().token;
+      if (!token) return { added: 0, failed: 0 };
+      const pending = words.filter(
+        (word) =>
+          !syncing.has(favoriteKey(word, language)) && !get().favorites.some((fav) => isSameFavorite(fav, word, language))
+      );
+      const added = new Date().toISOString();
+      set((state) => ({
+        favorites: pending.reduce((favorites, word) => withFavorite(favorites, { word, language, added }, word, language), state.favorites),
+      }));
+      // Claimed up front, so toggling a word that is still waiting its turn is picked up by its own sync
+      pending.forEach((word) => {
+        desired.set(favoriteKey(word, language), { word, language, favorite: true });
+        syncing.add(favoriteKey(word, language));
+      });
+      // Failures are summed up by the caller instead of raising a toast per word
+      const results = await runRateLimited(pending, (word) => sync(word, language, token, null, { quiet: true }), {
+        intervalMs,
+        onProgress,
+      });
+      const failed = results.filter((result) => result.status === "rejected" || !result.value).length;
+      return { added: pending.length - failed, failed };
+    },
+    setTags: async (words, language, tags) => {
+      const token = useAuthStore.getState().token;
+      if (!token || words.length === 0) return;
+      const selected = new Set(words);
+      const previous = get().favorites;
+      set((state) => ({
+        favorites: state.favorites.map((fav) =>
+          selected.has(fav.word) && entryLanguage(fav) === language ? { ...fav, tags } : fav
+        ),
+      }));
+      try {
+        await setFavoriteTags(token, language, words, tags);
+        postTabMessage({ type: "favorites" });
+      } catch {
+        if (useAuthStore.getState().token !== token) return;
+        set({ favorites: previous });
+        useToastStore.getState().showToast(translate(getCurrentLocale(), "favorites.tagFailed"), "error");
+      } finally {
+        set((state) => ({ revision: state.revision + 1 }));
+      }
+    },
+    reset: () => {
+      desired.clear();
+      syncing.clear();
+      set({ favorites: [], loading: false, error: "" });
+    },
+  };
+});
+
+useAuthStore.subscribe((state, prev) => {
+  if (state.token !== prev.token) useFavoritesStore.getState().reset();
+});
+
+subscribeToTabMessages((message) => {
+  if (message.type === "favorite") {
+    const { word, language, entry } = message;
+    invalidateFavorites();
+    // A toggle of our own still in flight decides this word's final state
+    if (syncing.has(favoriteKey(word, language))) return;
+    useFavoritesStore.setState((state) => ({
+      favorites: withFavorite(state.favorites, entry, word, language),
+      revision: state.revision + 1,
+    }));
+  } else if (message.type === "favorites") {
+    invalidateFavorites();
+    useFavoritesStore.getState().loadFavorites();
+  }
+});
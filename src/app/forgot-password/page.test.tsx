@@ -0,0 +1,29 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { http, HttpResponse } from "msw";
+import { describe, expect, it } from "vitest";
+import { MOCK_BACKEND_URL } from "../../../mocks/handlers";
+import { server } from "../../../mocks/node";
+import { renderWithProviders } from "../../test-utils";
+import { useLoginThrottleStore } from "../login-throttle-store";
+import ForgotPasswordPage from "./page";
+
+describe("ForgotPasswordPage", () => {
+  it("waits as long as a 429 response asks without holding back sign-in", async () => {
+    server.use(
+      http.post(`${MOCK_BACKEND_URL}/auth/password-reset`, () =>
+        HttpResponse.json({ message: "Too many requests" }, { status: 429, headers: { "Retry-After": "42" } })
+      )
+    );
+    const user = userEvent.setup();
+    renderWithProviders(<ForgotPasswordPage />);
+
+    await user.type(screen.getByPlaceholderText("Email address"), "ada@example.com");
+    await user.click(screen.getByRole("button", { name: "Send reset link" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Too many attempts.");
+    expect(screen.getByText("You can try again in 42s.")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Send reset link" })).toBeDisabled();
+    expect(useLoginThrottleStore.getState().lockedUntil).toBeNull();
+  });
+});
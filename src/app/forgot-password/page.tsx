@@ -0,0 +1,110 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { authApi } from '../api/auth';
+import { isApiError } from '../api/http';
+import type { MessageKey } from '../i18n/en';
+import { useI18n } from '../i18n/i18n-provider';
+import LanguageSwitcher from '../i18n/language-switcher';
+import { useSecondsUntil } from '../login-throttle-store';
+
+export default function ForgotPasswordPage() {
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState('');
+  const [error, setError] = useState<MessageKey | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  // A wait the server asks for here only holds back reset requests, not signing in
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const lockoutSeconds = useSecondsUntil(lockedUntil);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lockoutSeconds > 0) return;
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await authApi.requestPasswordReset({ email });
+      setSentTo(email);
+    } catch (err) {
+      if (isApiError(err) && err.retryAfterMs) setLockedUntil(Date.now() + err.retryAfterMs);
+      if (isApiError(err, 'rate_limited')) {
+        setError('auth.rateLimited');
+      } else if (isApiError(err, 'network') || isApiError(err, 'timeout')) {
+        setError('auth.networkError');
+      } else if (isApiError(err, 'server')) {
+        setError('auth.serverError');
+      } else {
+        setError('passwordReset.failed');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 bg-surface p-8 rounded-xl shadow-lg">
+        <div className="flex justify-end">
+          <LanguageSwitcher />
+        </div>
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t('app.title')}
+          </h2>
+          <p className="mt-2 text-center text-sm text-muted">
+            {t('passwordReset.subtitle')}
+          </p>
+        </div>
+        {sentTo ? (
+          <p className="text-center text-sm text-foreground" role="status">
+            {t('passwordReset.sent', { email: sentTo })}
+          </p>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="email" className="sr-only">
+                {t('auth.email')}
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                className="appearance-none relative block w-full px-3 py-2 border border-line placeholder-subtle text-foreground rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                placeholder={t('auth.email')}
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            {error && (
+              <div className="text-red-500 text-sm text-center" role="alert">{t(error)}</div>
+            )}
+            {lockoutSeconds > 0 && (
+              <div className="text-muted text-sm text-center">{t('auth.retryIn', { seconds: lockoutSeconds })}</div>
+            )}
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading || lockoutSeconds > 0}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? t('passwordReset.submitting') : t('passwordReset.submit')}
+              </button>
+            </div>
+          </form>
+        )}
+        <p className="text-center text-sm text-muted">
+          <Link href="/login" className="font-medium text-accent hover:text-accent">
+            {t('passwordReset.backToLogin')}
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { clearFavoriteQueue } from "./api/favorites-queue";
+import { useAuthStore } from "./auth-store";
+import { useConnectivityStore } from "./connectivity-store";
+import type { MessageKey } from "./i18n/en";
+import { useI18n } from "./i18n/i18n-provider";
+import LanguageSwitcher from "./i18n/language-switcher";
+import ThemeToggle from "./theme/theme-toggle";
+
+const NAV_LINKS: { href: string; label: MessageKey }[] = [
+  { href: "/", label: "header.home" },
+  { href: "/dictionary", label: "header.dictionary" },
+];
+
+function ConnectivityIndicator() {
+  const { t } = useI18n();
+  const online = useConnectivityStore((state) => state.online);
+  const pendingChanges = useConnectivityStore((state) => state.pendingChanges);
+  const syncing = useConnectivityStore((state) => state.syncing);
+
+  return (
+    <span className="flex items-center gap-2" role="status">
+      <span className={`w-2 h-2 rounded-full ${online ? "bg-green-300" : "bg-gray-300"}`} aria-hidden="true" />
+      <span>{online ? t("header.online") : t("header.offline")}</span>
+      {pendingChanges > 0 && (
+        <span className="px-2 rounded-full bg-indigo-700 text-xs" title={t("header.pendingChangesTitle")}>
+          {syncing ? t("header.syncing") : t("header.pendingChanges", { count: pendingChanges })}
+        </span>
+      )}
+    </span>
+  );
+}
+
+export default function HeaderBar() {
+  const { t } = useI18n();
+  const pathname = usePathname();
+  const user = useAuthStore((state) => state.user);
+  const clearSession = useAuthStore((state) => state.clearSession);
+
+  // Offline changes are sent before signing out; whatever still cannot be sent is only dropped once the user agrees
+  const handleSignOut = async () => {
+    const connectivity = useConnectivityStore.getState();
+    if (connectivity.pendingChanges > 0 && connectivity.online) await connectivity.syncPendingChanges();
+    const { pendingChanges } = useConnectivityStore.getState();
+    if (pendingChanges > 0) {
+      if (!window.confirm(t("header.signOutConfirm", { count: pendingChanges }))) return;
+      await clearFavoriteQueue();
+    }
+    clearSession();
+  };
+
+  return (
+    <div className="bg-header h-10 w-full flex items-center justify-end gap-4 px-4 text-white text-sm">
+      <nav aria-label={t("header.navigation")} className="mr-auto flex items-center gap-4">
+        {NAV_LINKS.map(({ href, label }) => {
+          const current = href === "/" ? pathname === "/" : pathname.startsWith(href);
+          return (
+            <Link
+              key={href}
+              href={href}
+              aria-current={current ? "page" : undefined}
+              className={current ? "font-semibold underline underline-offset-4" : "text-indigo-100 hover:text-white"}
+            >
+              {t(label)}
+            </Link>
+          );
+        })}
+      </nav>
+      <ConnectivityIndicator />
+      <ThemeToggle />
+      <LanguageSwitcher className="py-0.5" />
+      {user && (
+        <span title={user.email}>
+          <span className="font-medium">{user.name}</span>
+          <span className="hidden sm:inline text-indigo-100"> · {user.email}</span>
+        </span>
+      )}
+      <button
+        type="button"
+        className="px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-700"
+        onClick={handleSignOut}
+      >
+        {t("header.signOut")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { isApiError } from "../api/http";
+import { pingBackend } from "../api/services";
+import { config, resolveBackendUrl } from "../config";
+import type { MessageKey } from "../i18n/en";
+import { useI18n } from "../i18n/i18n-provider";
+
+type BackendStatus =
+  | { state: "checking" }
+  | { state: "reachable"; status: number; durationMs: number }
+  | { state: "error"; status: number }
+  | { state: "unreachable"; message: string };
+
+const FEATURES: { flag: keyof typeof config.features; label: MessageKey }[] = [
+  { flag: "study", label: "health.featureStudy" },
+  { flag: "transfer", label: "health.featureTransfer" },
+  { flag: "debugOverlay", label: "health.featureDebugOverlay" },
+];
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-2 border-b last:border-0 text-sm">
+      <dt className="text-muted">{label}</dt>
+      <dd className="text-foreground text-right break-all">{children}</dd>
+    </div>
+  );
+}
+
+export default function HealthView() {
+  const { t } = useI18n();
+  const [backend] = useState(resolveBackendUrl);
+  const [status, setStatus] = useState<BackendStatus>({ state: "checking" });
+
+  const check = useCallback(async () => {
+    setStatus({ state: "checking" });
+    try {
+      setStatus({ state: "reachable", ...(await pingBackend()) });
+    } catch (err) {
+      if (isApiError(err) && err.status !== null) {
+        setStatus({ state: "error", status: err.status });
+      } else {
+        setStatus({ state: "unreachable", message: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    check();
+  }, [check]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center py-12 px-4">
+      <div className="max-w-lg w-full space-y-6 bg-surface p-8 rounded-xl shadow-lg">
+        <h1 className="text-2xl font-bold text-foreground">{t("health.title")}</h1>
+
+        <section aria-labelledby="health-backend">
+          <div className="flex items-center justify-between mb-2">
+            <h2 id="health-backend" className="font-semibold text-foreground">{t("health.backend")}</h2>
+            <button
+              type="button"
+              disabled={status.state === "checking"}
+              className="px-3 py-1 rounded-md border border-indigo-300 text-accent text-sm hover:bg-highlight-soft disabled:opacity-50"
+              onClick={check}
+            >
+              {t("health.checkAgain")}
+            </button>
+          </div>
+          <div role="status" className="text-sm">
+            {status.state === "checking" && <span className="text-indigo-500">{t("health.checking")}</span>}
+            {status.state === "reachable" && (
+              <span className="text-green-700 dark:text-green-400">
+                {t("health.reachable", { status: status.status, ms: status.durationMs })}
+              </span>
+            )}
+            {status.state === "error" && (
+              <span className="text-orange-600">{t("health.httpError", { status: status.status })}</span>
+            )}
+            {status.state === "unreachable" && (
+              <span className="text-red-500">{t("health.unreachable", { message: status.message })}</span>
+            )}
+          </div>
+        </section>
+
+        <section aria-labelledby="health-config">
+          <h2 id="health-config" className="font-semibold text-foreground mb-2">{t("health.config")}</h2>
+          <dl>
+            <Row label={t("health.backendUrl")}>
+              {backend ? (
+                <>
+                  <code>{backend.url}</code>
+                  <div className="text-xs text-subtle">
+                    {t(backend.source === "runtime" ? "health.sourceRuntime" : "health.sourceBuild")}
+                  </div>
+                </>
+              ) : (
+                <span className="text-red-500">{t("health.notSet")}</span>
+              )}
+            </Row>
+            <Row label={t("health.wordsPageSize")}>{config.pageSizes.words}</Row>
+            <Row label={t("health.favoritesPageSize")}>{config.pageSizes.favorites}</Row>
+            <Row label={t("health.historyPageSize")}>{config.pageSizes.history}</Row>
+            <Row label={t("health.suggestionsLimit")}>{config.pageSizes.suggestions}</Row>
+            <Row label={t("health.timeout")}>{t("health.milliseconds", { ms: config.request.timeoutMs })}</Row>
+            <Row label={t("health.retries")}>{config.request.retries}</Row>
+            <Row label={t("health.telemetry")}>{config.telemetry.sink}</Row>
+          </dl>
+        </section>
+
+        <section aria-labelledby="health-features">
+          <h2 id="health-features" className="font-semibold text-foreground mb-2">{t("health.features")}</h2>
+          <dl>
+            {FEATURES.map(({ flag, label }) => (
+              <Row key={flag} label={t(label)}>
+                {config.features[flag] ? t("health.on") : t("health.off")}
+              </Row>
+            ))}
+          </dl>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { create } from "zustand";
+import { clearHistory, deleteHistoryEntry } from "./api/services";
+import type { HistoryWord } from "./api/types";
+import { useAuthStore } from "./auth-store";
+import { postTabMessage, subscribeToTabMessages } from "./tab-sync";
+
+type HistoryState = {
+  /** Bumped whenever the server's history changed outside the current view, so it knows to reload. */
+  revision: number;
+  historyChanged: () => void;
+  /**
+   * Deletes lookups one request each. Once any of them is gone, views here and in other tabs
+   * reload from the first page, since the server's pages no longer line up with what they hold.
+   */
+  deleteEntries: (entries: HistoryWord[]) => Promise<PromiseSettledResult<void>[]>;
+  /** Deletes the whole history, then has every view of it reload, here and in other tabs. */
+  clearHistory: () => Promise<void>;
+};
+
+export const useHistoryStore = create<HistoryState>()((set) => ({
+  revision: 0,
+  historyChanged: () => set((state) => ({ revision: state.revision + 1 })),
+  deleteEntries: async (entries) => {
+    const token = useAuthStore.getState().token;
+    if (!token) return [];
+    const results = await Promise.allSettled(entries.map((entry) => deleteHistoryEntry(token, entry)));
+    if (results.some((result) => result.status === "fulfilled")) {
+      postTabMessage({ type: "history" });
+      set((state) => ({ revision: state.revision + 1 }));
+    }
+    return results;
+  },
+  clearHistory: async () => {
+    const token = useAuthStore.getState().token;
+    if (!token) return;
+    await clearHistory(token);
+    postTabMessage({ type: "history" });
+    set((state) => ({ revision: state.revision + 1 }));
+  },
+}));
+
+subscribeToTabMessages((message) => {
+  if (message.type === "history") useHistoryStore.getState().historyChanged();
+});
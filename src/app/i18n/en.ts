@@ -0,0 +1,265 @@
+export const en = {
+  "app.title": "Dictionary App",
+  "common.loading": "Loading...",
+  "common.retry": "Retry",
+  "common.dismiss": "Dismiss",
+  "common.language": "Language",
+
+  "auth.email": "Email address",
+  "auth.password": "Password",
+  "auth.name": "Name",
+  "auth.networkError": "Could not reach the server. Please try again.",
+  "auth.serverError": "The server ran into a problem. Please try again shortly.",
+  "auth.rateLimited": "Too many attempts. Please wait before trying again.",
+  "auth.retryIn": "You can try again in {seconds}s.",
+
+  "login.subtitle": "Sign in to access your dictionary",
+  "login.submit": "Sign in",
+  "login.submitting": "Signing in...",
+  "login.invalidCredentials": "Invalid email or password",
+  "login.failed": "Could not sign in",
+  "login.rememberMe": "Remember me",
+  "login.forgotPassword": "Forgot your password?",
+  "login.noAccount": "Don't have an account?",
+  "login.signUpLink": "Sign up",
+
+  "signup.subtitle": "Create an account to start your dictionary",
+  "signup.submit": "Sign up",
+  "signup.submitting": "Creating account...",
+  "signup.haveAccount": "Already have an account?",
+  "signup.signInLink": "Sign in",
+  "signup.nameTooShort": "Name must have at least 2 characters",
+  "signup.invalidEmail": "Enter a valid email address",
+  "signup.passwordTooShort": "Password must have at least {min} characters",
+  "signup.emailTaken": "An account with this email already exists",
+  "signup.failed": "Could not create your account",
+
+  "passwordReset.subtitle": "Enter your email and we will send you a link to reset your password.",
+  "passwordReset.submit": "Send reset link",
+  "passwordReset.submitting": "Sending...",
+  "passwordReset.sent": "If an account exists for {email}, a link to reset its password is on its way.",
+  "passwordReset.failed": "Could not send the reset link",
+  "passwordReset.backToLogin": "Back to sign in",
+  "passwordReset.chooseSubtitle": "Choose a new password for your account.",
+  "passwordReset.newPassword": "New password",
+  "passwordReset.confirmPassword": "Confirm new password",
+  "passwordReset.mismatch": "The passwords do not match",
+  "passwordReset.save": "Set new password",
+  "passwordReset.saving": "Saving...",
+  "passwordReset.done": "Your password was changed. You can now sign in with it.",
+  "passwordReset.invalidLink": "This reset link is invalid or has expired.",
+  "passwordReset.requestNew": "Request a new link",
+
+  "header.online": "Online",
+  "header.offline": "Offline",
+  "header.pendingChanges": "{count} pending",
+  "header.pendingChangesTitle": "Favorite changes waiting to be synced",
+  "header.syncing": "Syncing...",
+  "header.signOut": "Sign out",
+  "header.signOutConfirm": {
+    one: "1 favorite change made offline has not been synced yet and will be lost. Sign out anyway?",
+    other: "{count} favorite changes made offline have not been synced yet and will be lost. Sign out anyway?",
+  },
+  "header.home": "Home",
+  "header.dictionary": "Dictionary",
+  "header.navigation": "Main",
+
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+  "theme.toggle": "Theme: {theme}. Switch to {next}",
+
+  "tabs.wordList": "Word list",
+  "tabs.favorites": "Favorites",
+  "tabs.history": "History",
+  "tabs.study": "Study",
+  "tabs.label": "Dictionary sections",
+
+  "dictionary.language": "Dictionary",
+  "dictionary.language.en": "English",
+  "dictionary.language.es": "Spanish",
+  "dictionary.language.pt": "Portuguese",
+
+  "search.placeholder": "Search words...",
+  "search.noMatches": "No matching words",
+  "search.error": "Could not search words",
+  "search.label": "Search words",
+  "search.results": { one: "1 suggestion available", other: "{count} suggestions available" },
+
+  "detail.notFound": "Word not found",
+  "detail.metaDescription": "Definition, pronunciation and examples of \"{word}\".",
+  "detail.error": "Could not load word detail",
+  "detail.meanings": "Meanings",
+  "detail.synonyms": "Synonyms",
+  "detail.antonyms": "Antonyms",
+  "detail.play": "Play {label}",
+  "detail.pause": "Pause {label}",
+  "detail.previous": "Previous",
+  "detail.next": "Next",
+  "detail.close": "Close",
+  "detail.compare": "Compare",
+
+  "compare.title": "Compare words",
+  "compare.close": "Close comparison",
+  "compare.needMore": "Search for another word, or open a synonym or antonym, to compare it side by side.",
+  "compare.full": "Comparing the maximum of {max} words. Remove one to add another.",
+  "compare.hint": "Add words with the search box, or open a synonym or antonym next to the word it belongs to.",
+  "compare.remove": "Remove \"{word}\" from the comparison",
+  "compare.pronunciation": "Pronunciation",
+
+  "words.error": "Could not load words",
+  "words.noMore": "No more words",
+  "words.gridLabel": "Words",
+  "words.keyboardHint": "Use the arrow keys to move between words, Enter to open one and F to favorite it. Press / to search and Escape to close a word.",
+
+  "favorites.add": "Add to favorites",
+  "favorites.remove": "Remove from favorites",
+  "favorites.error": "Could not load favorites",
+  "favorites.empty": "No favorites",
+  "favorites.addFailed": "Could not add \"{word}\" to favorites",
+  "favorites.removeFailed": "Could not remove \"{word}\" from favorites",
+  "favorites.syncFailed": "Could not sync offline favorite changes",
+  "favorites.search": "Search favorites",
+  "favorites.sort": "Sort",
+  "favorites.sortNewest": "Newest first",
+  "favorites.sortOldest": "Oldest first",
+  "favorites.sortAZ": "A–Z",
+  "favorites.sortZA": "Z–A",
+  "favorites.tag": "Tag",
+  "favorites.allTags": "All tags",
+  "favorites.word": "Word",
+  "favorites.tags": "Tags",
+  "favorites.added": "Added",
+  "favorites.actions": "Actions",
+  "favorites.select": "Select \"{word}\"",
+  "favorites.selectAll": "Select all on this page",
+  "favorites.selected": "{count} selected",
+  "favorites.removeSelected": "Remove selected",
+  "favorites.tagsPlaceholder": "Tags, separated by commas",
+  "favorites.applyTags": "Set tags",
+  "favorites.clearTags": "Remove all tags",
+  "favorites.tagFailed": "Could not update tags",
+  "favorites.noMatches": "No favorites match the filters",
+  "favorites.page": "Page {page} of {total}",
+  "favorites.prevPage": "Previous page",
+  "favorites.nextPage": "Next page",
+  "favorites.toggle": "Favorite \"{word}\"",
+  "favorites.removeWord": "Remove \"{word}\" from favorites",
+
+  "history.error": "Could not load history",
+  "history.empty": "No history",
+  "history.filter": "Filter words",
+  "history.from": "From",
+  "history.to": "To",
+  "history.collapse": "Group repeated lookups",
+  "history.today": "Today",
+  "history.yesterday": "Yesterday",
+  "history.lookups": "×{count}",
+  "history.noMatches": "No entries match the filter",
+  "history.delete": "Delete \"{word}\" from history",
+  "history.deleteFailed": "Could not delete \"{word}\" from history",
+  "history.clear": "Clear history",
+  "history.clearConfirm": "Delete your entire lookup history? This cannot be undone.",
+  "history.clearFailed": "Could not clear history",
+
+  "transfer.export": "Export",
+  "transfer.exportCsv": "CSV",
+  "transfer.exportJson": "JSON",
+  "transfer.exportAnki": "Anki deck",
+  "transfer.exporting": "Preparing export {done}/{total}",
+  "transfer.exportFailed": "Could not export the list",
+  "transfer.exportTruncated": {
+    one: "The history is too long; only the most recent entry was exported",
+    other: "The history is too long; only the {count} most recent entries were exported",
+  },
+  "transfer.import": "Import CSV or JSON",
+  "transfer.invalidFile": "Could not read a word list from this file",
+  "transfer.checking": "Checking words {done}/{total}",
+  "transfer.checkFailed": "Could not check the words against the dictionary",
+  "transfer.newWords": { one: "1 new word will be added", other: "{count} new words will be added" },
+  "transfer.unknownWords": "Not found in the dictionary ({count})",
+  "transfer.duplicateWords": "Already favorited or repeated ({count})",
+  "transfer.confirm": "Add to favorites",
+  "transfer.cancel": "Cancel",
+  "transfer.importing": "Adding words {done}/{total}",
+  "transfer.imported": { one: "Added 1 word to favorites", other: "Added {count} words to favorites" },
+  "transfer.importFailed": { one: "1 word could not be added", other: "{count} words could not be added" },
+
+  "study.due": "Due now",
+  "study.reviewedToday": "Reviewed today",
+  "study.streak": "Day streak",
+  "study.retention": "Retention (30 days)",
+  "study.start": "Start review",
+  "study.noneDue": "No cards due. Favorite more words or come back later.",
+  "study.showAnswer": "Show answer",
+  "study.remaining": "{count} left",
+  "study.finished": "Session complete!",
+  "study.grade.again": "Again",
+  "study.grade.hard": "Hard",
+  "study.grade.good": "Good",
+  "study.grade.easy": "Easy",
+
+  "errorBoundary.title": "Something went wrong",
+  "errorBoundary.message": "This part of the app ran into a problem and it has been reported. You can try again or reload the page.",
+  "errorBoundary.retry": "Try again",
+  "errorBoundary.reload": "Reload page",
+
+  "health.title": "Health",
+  "health.config": "Configuration",
+  "health.backendUrl": "Backend URL",
+  "health.sourceRuntime": "Set on the server (BACKEND_URL)",
+  "health.sourceBuild": "Set at build time (NEXT_PUBLIC_BACKEND_URL)",
+  "health.notSet": "Not set",
+  "health.wordsPageSize": "Words per page",
+  "health.favoritesPageSize": "Favorites per page",
+  "health.historyPageSize": "History entries per page",
+  "health.suggestionsLimit": "Search suggestions",
+  "health.timeout": "Request timeout",
+  "health.milliseconds": "{ms} ms",
+  "health.retries": "Retries",
+  "health.telemetry": "Telemetry sink",
+  "health.features": "Features",
+  "health.featureStudy": "Study mode",
+  "health.featureTransfer": "Import and export",
+  "health.featureDebugOverlay": "Request debug overlay",
+  "health.on": "On",
+  "health.off": "Off",
+  "health.backend": "Backend",
+  "health.checking": "Checking...",
+  "health.reachable": "Reachable, HTTP {status} in {ms} ms",
+  "health.httpError": "Responding with errors, HTTP {status}",
+  "health.unreachable": "Unreachable: {message}",
+  "health.checkAgain": "Check again",
+
+  "home.welcome": "Welcome back, {name}",
+  "home.openDictionary": "Open the dictionary",
+  "home.wordOfTheDay": "Word of the day",
+  "home.wordOfTheDayError": "Could not load the word of the day",
+  "home.lookWordUp": "Look it up",
+  "home.progress": "Your progress",
+  "home.statsError": "Could not load your history",
+  "home.statsTruncated": {
+    one: "Your history is too long to load in full; these stats count only the most recent lookup",
+    other: "Your history is too long to load in full; these stats count only the {count} most recent lookups",
+  },
+  "home.streak": "Lookup streak (days)",
+  "home.lookupsInWindow": "Lookups, last {days} days",
+  "home.wordsInWindow": "Different words, last {days} days",
+  "home.favoritesCount": "Favorites",
+  "home.lookupsPerDay": "Words looked up per day",
+  "home.lookupsOnDay": "{date}: {count}",
+  "home.mostRevisited": "Most revisited",
+  "home.revisits": "×{count}",
+  "home.noRevisits": "Words you look up more than once show up here.",
+  "home.recentFavorites": "Recent favorites",
+  "home.noFavorites": "Favorite words from the dictionary to see them here.",
+};
+
+/**
+ * A message that depends on `{count}`, with one text per plural category of the
+ * locale (see `Intl.PluralRules`). `other` is required and used for any missing category.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string | PluralMessage>;
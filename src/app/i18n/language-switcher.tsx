@@ -0,0 +1,25 @@
+"use client";
+
+import { useI18n } from "./i18n-provider";
+import { isLocale, LOCALE_LABELS, LOCALES } from "./locales";
+
+export default function LanguageSwitcher({ className = "" }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      className={`rounded-md border border-line bg-surface px-2 py-1 text-sm text-foreground ${className}`}
+      aria-label={t("common.language")}
+      value={locale}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) setLocale(e.target.value);
+      }}
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option}>
+          {LOCALE_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { translate } from "./locales";
+
+describe("translate", () => {
+  it("picks the plural form for the count in the given locale", () => {
+    expect(translate("en", "transfer.imported", { count: 1 })).toBe("Added 1 word to favorites");
+    expect(translate("en", "transfer.imported", { count: 3 })).toBe("Added 3 words to favorites");
+    expect(translate("pt-BR", "study.remaining", { count: 0 })).toBe("0 restante");
+    expect(translate("pt-BR", "study.remaining", { count: 2 })).toBe("2 restantes");
+  });
+
+  it("fills in messages without plural forms as before", () => {
+    expect(translate("en", "study.remaining", { count: 1 })).toBe("1 left");
+    expect(translate("en", "common.retry")).toBe("Retry");
+  });
+});
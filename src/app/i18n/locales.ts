@@ -0,0 +1,49 @@
+import { en, type MessageKey, type Messages, type PluralMessage } from "./en";
+import { ptBR } from "./pt-BR";
+
+export const LOCALES = ["en", "pt-BR"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+export const LOCALE_COOKIE = "locale";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  "pt-BR": "Português (Brasil)",
+};
+
+const catalogs: Record<Locale, Messages> = { en, "pt-BR": ptBR };
+
+export type TranslateParams = Record<string, string | number>;
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function pluralForm(locale: Locale, message: PluralMessage, count: number) {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+}
+
+export function translate(locale: Locale, key: MessageKey, params?: TranslateParams): string {
+  const entry = catalogs[locale][key] ?? en[key];
+  const message = typeof entry === "string" ? entry : pluralForm(locale, entry, Number(params?.count ?? 0));
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Locale of the current page, read from `<html lang>`. Lets code outside React,
+ * such as store actions raising toasts, use the same locale as the UI.
+ */
+export function getCurrentLocale(): Locale {
+  if (typeof document === "undefined") return DEFAULT_LOCALE;
+  const lang = document.documentElement.lang;
+  return isLocale(lang) ? lang : DEFAULT_LOCALE;
+}
@@ -0,0 +1,258 @@
+import type { Messages } from "./en";
+
+export const ptBR: Messages = {
+  "app.title": "Dicionário",
+  "common.loading": "Carregando...",
+  "common.retry": "Tentar novamente",
+  "common.dismiss": "Fechar",
+  "common.language": "Idioma",
+
+  "auth.email": "Endereço de e-mail",
+  "auth.password": "Senha",
+  "auth.name": "Nome",
+  "auth.networkError": "Não foi possível conectar ao servidor. Tente novamente.",
+  "auth.serverError": "O servidor encontrou um problema. Tente novamente em instantes.",
+  "auth.rateLimited": "Muitas tentativas. Aguarde antes de tentar novamente.",
+  "auth.retryIn": "Você pode tentar novamente em {seconds}s.",
+
+  "login.subtitle": "Entre para acessar seu dicionário",
+  "login.submit": "Entrar",
+  "login.submitting": "Entrando...",
+  "login.invalidCredentials": "E-mail ou senha inválidos",
+  "login.failed": "Não foi possível entrar",
+  "login.rememberMe": "Lembrar de mim",
+  "login.forgotPassword": "Esqueceu sua senha?",
+  "login.noAccount": "Não tem uma conta?",
+  "login.signUpLink": "Cadastre-se",
+
+  "signup.subtitle": "Crie uma conta para começar seu dicionário",
+  "signup.submit": "Cadastrar",
+  "signup.submitting": "Criando conta...",
+  "signup.haveAccount": "Já tem uma conta?",
+  "signup.signInLink": "Entrar",
+  "signup.nameTooShort": "O nome deve ter pelo menos 2 caracteres",
+  "signup.invalidEmail": "Informe um endereço de e-mail válido",
+  "signup.passwordTooShort": "A senha deve ter pelo menos {min} caracteres",
+  "signup.emailTaken": "Já existe uma conta com este e-mail",
+  "signup.failed": "Não foi possível criar sua conta",
+
+  "passwordReset.subtitle": "Informe seu e-mail e enviaremos um link para redefinir sua senha.",
+  "passwordReset.submit": "Enviar link",
+  "passwordReset.submitting": "Enviando...",
+  "passwordReset.sent": "Se existir uma conta para {email}, um link para redefinir a senha está a caminho.",
+  "passwordReset.failed": "Não foi possível enviar o link",
+  "passwordReset.backToLogin": "Voltar para o login",
+  "passwordReset.chooseSubtitle": "Escolha uma nova senha para sua conta.",
+  "passwordReset.newPassword": "Nova senha",
+  "passwordReset.confirmPassword": "Confirme a nova senha",
+  "passwordReset.mismatch": "As senhas não coincidem",
+  "passwordReset.save": "Salvar nova senha",
+  "passwordReset.saving": "Salvando...",
+  "passwordReset.done": "Sua senha foi alterada. Agora você pode entrar com ela.",
+  "passwordReset.invalidLink": "Este link de redefinição é inválido ou expirou.",
+  "passwordReset.requestNew": "Solicitar um novo link",
+
+  "header.online": "Online",
+  "header.offline": "Offline",
+  "header.pendingChanges": { one: "{count} pendente", other: "{count} pendentes" },
+  "header.pendingChangesTitle": "Alterações de favoritos aguardando sincronização",
+  "header.syncing": "Sincronizando...",
+  "header.signOut": "Sair",
+  "header.signOutConfirm": {
+    one: "{count} alteração de favoritos feita offline ainda não foi sincronizada e será perdida. Sair mesmo assim?",
+    other: "{count} alterações de favoritos feitas offline ainda não foram sincronizadas e serão perdidas. Sair mesmo assim?",
+  },
+  "header.home": "Início",
+  "header.dictionary": "Dicionário",
+  "header.navigation": "Principal",
+
+  "theme.light": "Claro",
+  "theme.dark": "Escuro",
+  "theme.system": "Sistema",
+  "theme.toggle": "Tema: {theme}. Mudar para {next}",
+
+  "tabs.wordList": "Lista de palavras",
+  "tabs.favorites": "Favoritos",
+  "tabs.history": "Histórico",
+  "tabs.study": "Estudar",
+  "tabs.label": "Seções do dicionário",
+
+  "dictionary.language": "Dicionário",
+  "dictionary.language.en": "Inglês",
+  "dictionary.language.es": "Espanhol",
+  "dictionary.language.pt": "Português",
+
+  "search.placeholder": "Buscar palavras...",
+  "search.noMatches": "Nenhuma palavra encontrada",
+  "search.error": "Não foi possível buscar palavras",
+  "search.label": "Buscar palavras",
+  "search.results": { one: "{count} sugestão disponível", other: "{count} sugestões disponíveis" },
+
+  "detail.notFound": "Palavra não encontrada",
+  "detail.metaDescription": "Definição, pronúncia e exemplos de \"{word}\".",
+  "detail.error": "Não foi possível carregar a palavra",
+  "detail.meanings": "Significados",
+  "detail.synonyms": "Sinônimos",
+  "detail.antonyms": "Antônimos",
+  "detail.play": "Reproduzir {label}",
+  "detail.pause": "Pausar {label}",
+  "detail.previous": "Anterior",
+  "detail.next": "Próxima",
+  "detail.close": "Fechar",
+  "detail.compare": "Comparar",
+
+  "compare.title": "Comparar palavras",
+  "compare.close": "Fechar comparação",
+  "compare.needMore": "Pesquise outra palavra, ou abra um sinônimo ou antônimo, para compará-la lado a lado.",
+  "compare.full": "Comparando o máximo de {max} palavras. Remova uma para adicionar outra.",
+  "compare.hint": "Adicione palavras pela busca, ou abra um sinônimo ou antônimo ao lado da palavra a que pertence.",
+  "compare.remove": "Remover \"{word}\" da comparação",
+  "compare.pronunciation": "Pronúncia",
+
+  "words.error": "Não foi possível carregar as palavras",
+  "words.noMore": "Não há mais palavras",
+  "words.gridLabel": "Palavras",
+  "words.keyboardHint": "Use as setas para navegar entre as palavras, Enter para abrir uma e F para favoritá-la. Pressione / para buscar e Esc para fechar uma palavra.",
+
+  "favorites.add": "Adicionar aos favoritos",
+  "favorites.remove": "Remover dos favoritos",
+  "favorites.error": "Não foi possível carregar os favoritos",
+  "favorites.empty": "Nenhum favorito",
+  "favorites.addFailed": "Não foi possível adicionar \"{word}\" aos favoritos",
+  "favorites.removeFailed": "Não foi possível remover \"{word}\" dos favoritos",
+  "favorites.syncFailed": "Não foi possível sincronizar as alterações feitas offline",
+  "favorites.search": "Buscar favoritos",
+  "favorites.sort": "Ordenar",
+  "favorites.sortNewest": "Mais recentes primeiro",
+  "favorites.sortOldest": "Mais antigos primeiro",
+  "favorites.sortAZ": "A–Z",
+  "favorites.sortZA": "Z–A",
+  "favorites.tag": "Etiqueta",
+  "favorites.allTags": "Todas as etiquetas",
+  "favorites.word": "Palavra",
+  "favorites.tags": "Etiquetas",
+  "favorites.added": "Adicionada em",
+  "favorites.actions": "Ações",
+  "favorites.select": "Selecionar \"{word}\"",
+  "favorites.selectAll": "Selecionar todos nesta página",
+  "favorites.selected": { one: "{count} selecionado", other: "{count} selecionados" },
+  "favorites.removeSelected": "Remover selecionados",
+  "favorites.tagsPlaceholder": "Etiquetas, separadas por vírgulas",
+  "favorites.applyTags": "Definir etiquetas",
+  "favorites.clearTags": "Remover todas as etiquetas",
+  "favorites.tagFailed": "Não foi possível atualizar as etiquetas",
+  "favorites.noMatches": "Nenhum favorito corresponde aos filtros",
+  "favorites.page": "Página {page} de {total}",
+  "favorites.prevPage": "Página anterior",
+  "favorites.nextPage": "Próxima página",
+  "favorites.toggle": "Favoritar \"{word}\"",
+  "favorites.removeWord": "Remover \"{word}\" dos favoritos",
+
+  "history.error": "Não foi possível carregar o histórico",
+  "history.empty": "Nenhum histórico",
+  "history.filter": "Filtrar palavras",
+  "history.from": "De",
+  "history.to": "Até",
+  "history.collapse": "Agrupar consultas repetidas",
+  "history.today": "Hoje",
+  "history.yesterday": "Ontem",
+  "history.lookups": "×{count}",
+  "history.noMatches": "Nenhuma entrada corresponde ao filtro",
+  "history.delete": "Excluir \"{word}\" do histórico",
+  "history.deleteFailed": "Não foi possível excluir \"{word}\" do histórico",
+  "history.clear": "Limpar histórico",
+  "history.clearConfirm": "Excluir todo o seu histórico de consultas? Isso não pode ser desfeito.",
+  "history.clearFailed": "Não foi possível limpar o histórico",
+
+  "transfer.export": "Exportar",
+  "transfer.exportCsv": "CSV",
+  "transfer.exportJson": "JSON",
+  "transfer.exportAnki": "Baralho Anki",
+  "transfer.exporting": "Preparando exportação {done}/{total}",
+  "transfer.exportFailed": "Não foi possível exportar a lista",
+  "transfer.exportTruncated": {
+    one: "O histórico é longo demais; só a entrada mais recente foi exportada",
+    other: "O histórico é longo demais; só as {count} entradas mais recentes foram exportadas",
+  },
+  "transfer.import": "Importar CSV ou JSON",
+  "transfer.invalidFile": "Não foi possível ler uma lista de palavras deste arquivo",
+  "transfer.checking": "Verificando palavras {done}/{total}",
+  "transfer.checkFailed": "Não foi possível verificar as palavras no dicionário",
+  "transfer.newWords": { one: "{count} palavra nova será adicionada", other: "{count} palavras novas serão adicionadas" },
+  "transfer.unknownWords": "Não encontradas no dicionário ({count})",
+  "transfer.duplicateWords": "Já favoritadas ou repetidas ({count})",
+  "transfer.confirm": "Adicionar aos favoritos",
+  "transfer.cancel": "Cancelar",
+  "transfer.importing": "Adicionando palavras {done}/{total}",
+  "transfer.imported": { one: "{count} palavra adicionada aos favoritos", other: "{count} palavras adicionadas aos favoritos" },
+  "transfer.importFailed": { one: "{count} palavra não pôde ser adicionada", other: "{count} palavras não puderam ser adicionadas" },
+
+  "study.due": "Para revisar",
+  "study.reviewedToday": "Revisadas hoje",
+  "study.streak": "Dias seguidos",
+  "study.retention": "Retenção (30 dias)",
+  "study.start": "Começar revisão",
+  "study.noneDue": "Nenhum cartão para revisar. Favorite mais palavras ou volte mais tarde.",
+  "study.showAnswer": "Mostrar resposta",
+  "study.remaining": { one: "{count} restante", other: "{count} restantes" },
+  "study.finished": "Sessão concluída!",
+  "study.grade.again": "De novo",
+  "study.grade.hard": "Difícil",
+  "study.grade.good": "Bom",
+  "study.grade.easy": "Fácil",
+
+  "errorBoundary.title": "Algo deu errado",
+  "errorBoundary.message": "Esta parte do aplicativo encontrou um problema, que já foi reportado. Você pode tentar novamente ou recarregar a página.",
+  "errorBoundary.retry": "Tentar novamente",
+  "errorBoundary.reload": "Recarregar página",
+
+  "health.title": "Status",
+  "health.config": "Configuração",
+  "health.backendUrl": "URL do backend",
+  "health.sourceRuntime": "Definida no servidor (BACKEND_URL)",
+  "health.sourceBuild": "Definida no build (NEXT_PUBLIC_BACKEND_URL)",
+  "health.notSet": "Não definida",
+  "health.wordsPageSize": "Palavras por página",
+  "health.favoritesPageSize": "Favoritos por página",
+  "health.historyPageSize": "Entradas do histórico por página",
+  "health.suggestionsLimit": "Sugestões de busca",
+  "health.timeout": "Tempo limite das requisições",
+  "health.milliseconds": "{ms} ms",
+  "health.retries": "Novas tentativas",
+  "health.telemetry": "Destino da telemetria",
+  "health.features": "Recursos",
+  "health.featureStudy": "Modo de estudo",
+  "health.featureTransfer": "Importação e exportação",
+  "health.featureDebugOverlay": "Painel de depuração de requisições",
+  "health.on": "Ativado",
+  "health.off": "Desativado",
+  "health.backend": "Backend",
+  "health.checking": "Verificando...",
+  "health.reachable": "Acessível, HTTP {status} em {ms} ms",
+  "health.httpError": "Respondendo com erros, HTTP {status}",
+  "health.unreachable": "Inacessível: {message}",
+  "health.checkAgain": "Verificar novamente",
+
+  "home.welcome": "Bem-vindo de volta, {name}",
+  "home.openDictionary": "Abrir o dicionário",
+  "home.wordOfTheDay": "Palavra do dia",
+  "home.wordOfTheDayError": "Não foi possível carregar a palavra do dia",
+  "home.lookWordUp": "Consultar",
+  "home.progress": "Seu progresso",
+  "home.statsError": "Não foi possível carregar seu histórico",
+  "home.statsTruncated": {
+    one: "Seu histórico é longo demais para carregar inteiro; estas estatísticas contam só a consulta mais recente",
+    other: "Seu histórico é longo demais para carregar inteiro; estas estatísticas contam só as {count} consultas mais recentes",
+  },
+  "home.streak": "Sequência de consultas (dias)",
+  "home.lookupsInWindow": "Consultas, últimos {days} dias",
+  "home.wordsInWindow": "Palavras diferentes, últimos {days} dias",
+  "home.favoritesCount": "Favoritos",
+  "home.lookupsPerDay": "Palavras consultadas por dia",
+  "home.lookupsOnDay": "{date}: {count}",
+  "home.mostRevisited": "Mais revisitadas",
+  "home.revisits": "×{count}",
+  "home.noRevisits": "Palavras consultadas mais de uma vez aparecem aqui.",
+  "home.recentFavorites": "Favoritos recentes",
+  "home.noFavorites": "Favorite palavras no dicionário para vê-las aqui.",
+};
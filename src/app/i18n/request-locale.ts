@@ -0,0 +1,10 @@
+import { cookies, headers } from "next/headers";
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, type Locale } from "./locales";
+
+/** Locale for the current server request: the saved choice, else the browser's preferred language. */
+export async function resolveLocale(): Promise<Locale> {
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(saved)) return saved;
+  const acceptLanguage = (await headers()).get("accept-language") ?? "";
+  return acceptLanguage.toLowerCase().startsWith("pt") ? "pt-BR" : DEFAULT_LOCALE;
+}
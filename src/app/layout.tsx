@@ -1,25 +1,62 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
+import { cookies } from "next/headers";
+import AxeChecker from "./axe-checker";
+import { config, parseRuntimeConfig, RUNTIME_CONFIG_ELEMENT_ID } from "./config";
+import DebugOverlay from "./debug-overlay";
 import "./globals.css";
+import { I18nProvider } from "./i18n/i18n-provider";
+import { resolveLocale } from "./i18n/request-locale";
+import TelemetryReporter from "./telemetry/telemetry-reporter";
+import { ThemeProvider } from "./theme/theme-provider";
+import { DEFAULT_THEME, isTheme, THEME_COOKIE, type Theme } from "./theme/themes";
+import Toaster from "./toaster";
 
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
-  title: "Dictionary App",
+  title: {
+    default: "Dictionary App",
+    template: "%s · Dictionary App",
+  },
   description: "A modern dictionary application",
 };
 
-export default function RootLayout({
+async function resolveTheme(): Promise<Theme> {
+  const saved = (await cookies()).get(THEME_COOKIE)?.value;
+  return isTheme(saved) ? saved : DEFAULT_THEME;
+}
+
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const locale = await resolveLocale();
+  const theme = await resolveTheme();
+  // Read on every request, so the same build can be pointed at another backend by restarting it
+  const runtimeConfig = parseRuntimeConfig(process.env);
+
   return (
-    <html lang="en">
+    <html lang={locale} data-theme={theme}>
       <body className={inter.className}>
-        <main className="min-h-screen bg-gray-50">
-          {children}
-        </main>
+        <script
+          id={RUNTIME_CONFIG_ELEMENT_ID}
+          type="application/json"
+          // "<" is escaped so a value can never close the script element
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(runtimeConfig).replace(/</g, "\\u003c") }}
+        />
+        <I18nProvider initialLocale={locale}>
+          <ThemeProvider initialTheme={theme}>
+            <main className="min-h-screen bg-background">
+              {children}
+            </main>
+            <Toaster />
+          </ThemeProvider>
+        </I18nProvider>
+        <TelemetryReporter />
+        {config.features.debugOverlay && <DebugOverlay />}
+        {process.env.NODE_ENV === "development" && <AxeChecker />}
       </body>
     </html>
   );
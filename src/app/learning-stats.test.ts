@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { dailyIndex, lookupStreak, lookupsPerDay, mostRevisited, recentFavorites } from "./learning-stats";
+
+const NOW = new Date(2026, 4, 20, 15, 0);
+
+function at(daysAgo: number, hour = 12) {
+  const date = new Date(NOW);
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, 0, 0, 0);
+  return date.toISOString();
+}
+
+describe("dailyIndex", () => {
+  it("is stable within a day and stays in range", () => {
+    const morning = new Date(2026, 4, 20, 0, 5);
+    const evening = new Date(2026, 4, 20, 23, 55);
+    expect(dailyIndex(120, morning)).toBe(dailyIndex(120, evening));
+    for (let day = 1; day <= 60; day++) {
+      const index = dailyIndex(7, new Date(2026, 0, day));
+      expect(index).toBeGreaterThanOrEqual(0);
+      expect(index).toBeLessThan(7);
+    }
+  });
+
+  it("changes from one day to the next", () => {
+    const indexes = new Set(Array.from({ length: 10 }, (_, day) => dailyIndex(1000, new Date(2026, 4, day + 1))));
+    expect(indexes.size).toBeGreaterThan(1);
+  });
+});
+
+describe("lookupsPerDay", () => {
+  it("counts lookups per day, oldest first, including empty days", () => {
+    const history = [{ word: "a", added: at(0) }, { word: "b", added: at(0, 9) }, { word: "a", added: at(2) }];
+    expect(lookupsPerDay(history, 3, NOW).map(day => day.count)).toEqual([1, 0, 2]);
+  });
+});
+
+describe("lookupStreak", () => {
+  it("counts consecutive days ending today", () => {
+    const history = [{ word: "a", added: at(0) }, { word: "b", added: at(1) }, { word: "c", added: at(3) }];
+    expect(lookupStreak(history, NOW)).toBe(2);
+  });
+
+  it("keeps a streak that ended yesterday", () => {
+    expect(lookupStreak([{ word: "a", added: at(1) }, { word: "a", added: at(2) }], NOW)).toBe(2);
+    expect(lookupStreak([{ word: "a", added: at(2) }], NOW)).toBe(0);
+  });
+});
+
+describe("mostRevisited", () => {
+  it("ranks words looked up more than once by count, then recency", () => {
+    const history = [
+      { word: "hello", added: at(0) },
+      { word: "world", added: at(1) },
+      { word: "hello", added: at(2) },
+      { word: "ocean", added: at(0, 8) },
+      { word: "world", added: at(3) },
+      { word: "hello", added: at(4) },
+      { word: "river", added: at(1) },
+    ];
+    expect(mostRevisited(history, 5).map(item => [item.word, item.count])).toEqual([
+      ["hello", 3],
+      ["world", 2],
+    ]);
+  });
+});
+
+describe("recentFavorites", () => {
+  it("returns the newest favorites first", () => {
+    const favorites = [{ word: "old", added: at(5) }, { word: "new", added: at(0) }, { word: "mid", added: at(2) }];
+    expect(recentFavorites(favorites, 2).map(fav => fav.word)).toEqual(["new", "mid"]);
+  });
+});
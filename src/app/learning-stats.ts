@@ -0,0 +1,83 @@
+import type { FavoriteWord, HistoryWord } from "./api/types";
+import { dayKey, dayStreak } from "./local-days";
+
+export type DayCount = {
+  date: Date;
+  count: number;
+};
+
+export type RevisitedWord = {
+  word: string;
+  count: number;
+  lastLookup: string;
+};
+
+function startOfDay(date: Date) {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/** Start of the local day `days - 1` days before `now`, so a window of `days` days includes today. */
+export function windowStart(days: number, now = new Date()) {
+  const start = startOfDay(now);
+  start.setDate(start.getDate() - (days - 1));
+  return start;
+}
+
+/**
+ * Index into a list of `total` items that stays the same for a whole local calendar
+ * day and changes from one day to the next (FNV-1a hash of the date).
+ */
+export function dailyIndex(total: number, now = new Date()) {
+  const key = `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % total;
+}
+
+/** Lookups on each of the last `days` days, oldest first, including days without any. */
+export function lookupsPerDay(history: HistoryWord[], days: number, now = new Date()): DayCount[] {
+  const counts = new Map<string, number>();
+  for (const entry of history) {
+    const key = dayKey(new Date(entry.added));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const cursor = windowStart(days, now);
+  const result: DayCount[] = [];
+  for (let i = 0; i < days; i++) {
+    result.push({ date: new Date(cursor), count: counts.get(dayKey(cursor)) ?? 0 });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return result;
+}
+
+/** Consecutive days, ending today or yesterday, with at least one lookup. */
+export function lookupStreak(history: HistoryWord[], now = new Date()) {
+  return dayStreak(history.map((entry) => entry.added), now);
+}
+
+/** Words looked up more than once, most lookups first; ties go to the most recent lookup. */
+export function mostRevisited(history: HistoryWord[], limit: number): RevisitedWord[] {
+  const byWord = new Map<string, RevisitedWord>();
+  for (const entry of history) {
+    const current = byWord.get(entry.word);
+    if (!current) {
+      byWord.set(entry.word, { word: entry.word, count: 1, lastLookup: entry.added });
+    } else {
+      current.count++;
+      if (entry.added > current.lastLookup) current.lastLookup = entry.added;
+    }
+  }
+  return [...byWord.values()]
+    .filter((item) => item.count > 1)
+    .sort((a, b) => b.count - a.count || b.lastLookup.localeCompare(a.lastLookup))
+    .slice(0, limit);
+}
+
+export function recentFavorites(favorites: FavoriteWord[], limit: number) {
+  return [...favorites].sort((a, b) => b.added.localeCompare(a.added)).slice(0, limit);
+}
@@ -0,0 +1,17 @@
+/** Key of the local calendar day `date` falls on; two times share it only when on the same day. */
+export function dayKey(date: Date) {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+/** Consecutive local days, ending today or yesterday, on which at least one of `times` falls. */
+export function dayStreak(times: string[], now = new Date()) {
+  const days = new Set(times.map((time) => dayKey(new Date(time))));
+  const cursor = new Date(now);
+  if (!days.has(dayKey(cursor))) cursor.setDate(cursor.getDate() - 1);
+  let streak = 0;
+  while (days.has(dayKey(cursor))) {
+    streak++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+}
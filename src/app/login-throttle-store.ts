@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+type LoginThrottleState = {
+  /** Failed sign-in attempts since the last successful one. */
+  failures: number;
+  /** Epoch milliseconds before which the sign-in form stays disabled, or null when it is open. */
+  lockedUntil: number | null;
+  /** Counts a rejected attempt and waits at least `retryAfterMs` when the server asked for it. */
+  recordFailure: (retryAfterMs?: number | null, now?: number) => void;
+  /** Waits without counting an attempt, e.g. when the server is down and sent `Retry-After`. */
+  waitFor: (ms: number, now?: number) => void;
+  reset: () => void;
+};
+
+// Attempts allowed before the form starts making the user wait
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 5_000;
+const MAX_LOCKOUT_MS = 5 * 60_000;
+
+/** Client-side wait after `failures` failed attempts, doubling with each one past the free ones. */
+export function lockoutDelay(failures: number) {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS));
+}
+
+export const useLoginThrottleStore = create<LoginThrottleState>()(
+  persist(
+    (set, get) => ({
+      failures: 0,
+      lockedUntil: null,
+      recordFailure: (retryAfterMs = null, now = Date.now()) => {
+        const failures = get().failures + 1;
+        const delay = Math.max(lockoutDelay(failures), retryAfterMs ?? 0);
+        set({ failures, lockedUntil: delay > 0 ? now + delay : null });
+      },
+      waitFor: (ms, now = Date.now()) => set({ lockedUntil: ms > 0 ? now + ms : null }),
+      reset: () => set({ failures: 0, lockedUntil: null }),
+    }),
+    {
+      // Kept per tab so reloading the page does not skip the wait
+      name: "login-throttle",
+      storage: createJSONStorage(() => sessionStorage),
+      partialize: (state) => ({ failures: state.failures, lockedUntil: state.lockedUntil }),
+    }
+  )
+);
+
+/** Whole seconds left until `lockedUntil` (epoch milliseconds), ticking down once a second; 0 once it has passed. */
+export function useSecondsUntil(lockedUntil: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (lockedUntil === null || lockedUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  return lockedUntil === null ? 0 : Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+}
+
+/** Whole seconds left before the sign-in form opens again; 0 when it is open. */
+export function useLockoutSeconds() {
+  return useSecondsUntil(useLoginThrottleStore((state) => state.lockedUntil));
+}
@@ -0,0 +1,14 @@
+import { GuestGuard } from "../auth-guard";
+import ErrorBoundary from "../telemetry/error-boundary";
+
+export default function LoginLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <GuestGuard>
+      <ErrorBoundary name="login">{children}</ErrorBoundary>
+    </GuestGuard>
+  );
+}
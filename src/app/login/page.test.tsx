@@ -0,0 +1,87 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { http, HttpResponse } from "msw";
+import { describe, expect, it } from "vitest";
+import { MOCK_BACKEND_URL } from "../../../mocks/handlers";
+import { server } from "../../../mocks/node";
+import { expectNoAxeViolations, renderWithProviders } from "../../test-utils";
+import { useAuthStore } from "../auth-store";
+import LoginPage from "./page";
+
+async function submit(user: ReturnType<typeof userEvent.setup>, password: string) {
+  const email = screen.getByPlaceholderText("Email address");
+  const passwordInput = screen.getByPlaceholderText("Password");
+  await user.clear(email);
+  await user.type(email, "ada@example.com");
+  await user.clear(passwordInput);
+  await user.type(passwordInput, password);
+  await user.click(screen.getByRole("button", { name: "Sign in" }));
+}
+
+describe("LoginPage", () => {
+  it("tells a wrong password apart and pauses after repeated failures", async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<LoginPage />);
+
+    await submit(user, "wrong-password");
+    expect(await screen.findByRole("alert")).toHaveTextContent("Invalid email or password");
+    expect(screen.getByRole("button", { name: "Sign in" })).toBeEnabled();
+
+    await submit(user, "wrong-password");
+    await submit(user, "wrong-password");
+    expect(await screen.findByText("You can try again in 5s.")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Sign in" })).toBeDisabled();
+  });
+
+  it("waits as long as a 429 response asks", async () => {
+    server.use(
+      http.post(`${MOCK_BACKEND_URL}/auth/signin`, () =>
+        HttpResponse.json({ message: "Too many requests" }, { status: 429, headers: { "Retry-After": "42" } })
+      )
+    );
+    const user = userEvent.setup();
+    renderWithProviders(<LoginPage />);
+
+    await submit(user, "password123");
+    expect(await screen.findByRole("alert")).toHaveTextContent("Too many attempts.");
+    expect(screen.getByText("You can try again in 42s.")).toBeInTheDocument();
+  });
+
+  it("has no accessibility violations, also while showing an error", async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithProviders(<LoginPage />);
+    await expectNoAxeViolations(container);
+
+    await submit(user, "wrong-password");
+    await screen.findByRole("alert");
+    await expectNoAxeViolations(container);
+  });
+
+  it("reports server errors without blaming the credentials", async () => {
+    server.use(http.post(`${MOCK_BACKEND_URL}/auth/signin`, () => new HttpResponse(null, { status: 500 })));
+    const user = userEvent.setup();
+    renderWithProviders(<LoginPage />);
+
+    await submit(user, "password123");
+    expect(await screen.findByRole("alert")).toHaveTextContent("The server ran into a problem.");
+  });
+
+  it("remembers the session unless asked to keep it for the tab only", async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderWithProviders(<LoginPage />);
+
+    expect(screen.getByRole("checkbox", { name: "Remember me" })).toBeChecked();
+    await submit(user, "password123");
+    expect(useAuthStore.getState().token).not.toBeNull();
+    expect(localStorage.getItem("auth-storage")).not.toBeNull();
+    expect(sessionStorage.getItem("auth-storage")).toBeNull();
+
+    unmount();
+    useAuthStore.getState().clearSession();
+    renderWithProviders(<LoginPage />);
+    await user.click(screen.getByRole("checkbox", { name: "Remember me" }));
+    await submit(user, "password123");
+    expect(sessionStorage.getItem("auth-storage")).not.toBeNull();
+    expect(localStorage.getItem("auth-storage")).toBeNull();
+  });
+});
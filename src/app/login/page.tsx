@@ -1,50 +1,78 @@
 'use client';
 
-import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useState } from 'react';
 import { authApi } from '../api/auth';
+import { isApiError } from '../api/http';
 import { useAuthStore } from "../auth-store";
+import type { MessageKey } from '../i18n/en';
+import { useI18n } from '../i18n/i18n-provider';
+import LanguageSwitcher from '../i18n/language-switcher';
+import { useLockoutSeconds, useLoginThrottleStore } from '../login-throttle-store';
 
 export default function LoginPage() {
-  const router = useRouter();
-  const setToken = useAuthStore((state) => state.setToken);
+  const { t } = useI18n();
+  const setSession = useAuthStore((state) => state.setSession);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [remember, setRemember] = useState(true);
+  const [error, setError] = useState<MessageKey | ''>('');
   const [isLoading, setIsLoading] = useState(false);
+  const recordFailure = useLoginThrottleStore((state) => state.recordFailure);
+  const waitFor = useLoginThrottleStore((state) => state.waitFor);
+  const resetThrottle = useLoginThrottleStore((state) => state.reset);
+  const lockoutSeconds = useLockoutSeconds();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (lockoutSeconds > 0) return;
     setError('');
     setIsLoading(true);
 
     try {
       const response = await authApi.signin({ email, password });
-      setToken(response.id);
-      router.push('/dictionary'); 
-    } catch  {
-      setError('Invalid email or password');
+      resetThrottle();
+      setSession(response, remember);
+    } catch (err) {
+      if (isApiError(err, 'unauthorized')) {
+        recordFailure();
+        setError('login.invalidCredentials');
+      } else if (isApiError(err, 'rate_limited')) {
+        recordFailure(err.retryAfterMs);
+        setError('auth.rateLimited');
+      } else if (isApiError(err, 'network') || isApiError(err, 'timeout')) {
+        setError('auth.networkError');
+      } else if (isApiError(err, 'server')) {
+        // An overloaded server may say when to come back; that is not the user's failed attempt
+        if (err.retryAfterMs) waitFor(err.retryAfterMs);
+        setError('auth.serverError');
+      } else {
+        setError('login.failed');
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <div className="min-h-screen bg-gray-100 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
-      <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-xl shadow-lg">
+    <div className="min-h-screen bg-background flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 bg-surface p-8 rounded-xl shadow-lg">
+        <div className="flex justify-end">
+          <LanguageSwitcher />
+        </div>
         <div>
-          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Dictionary App
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t('app.title')}
           </h2>
-          <p className="mt-2 text-center text-sm text-gray-600">
-            Sign in to access your dictionary
+          <p className="mt-2 text-center text-sm text-muted">
+            {t('login.subtitle')}
           </p>
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div className="rounded-md shadow-sm -space-y-px">
             <div>
               <label htmlFor="email" className="sr-only">
-                Email address
+                {t('auth.email')}
               </label>
               <input
                 id="email"
@@ -52,15 +80,15 @@ export default function LoginPage() {
                 type="email"
                 autoComplete="email"
                 required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Email address"
+                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-line placeholder-subtle text-foreground rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                placeholder={t('auth.email')}
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
               />
             </div>
             <div>
               <label htmlFor="password" className="sr-only">
-                Password
+                {t('auth.password')}
               </label>
               <input
                 id="password"
@@ -68,28 +96,53 @@ export default function LoginPage() {
                 type="password"
                 autoComplete="current-password"
                 required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Password"
+                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-line placeholder-subtle text-foreground rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                placeholder={t('auth.password')}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
               />
             </div>
           </div>
 
+          <div className="flex items-center justify-between text-sm">
+            <label className="flex items-center gap-2 text-muted">
+              <input
+                type="checkbox"
+                name="remember"
+                className="rounded border-line text-indigo-600 focus:ring-indigo-500"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+              />
+              {t('login.rememberMe')}
+            </label>
+            <Link href="/forgot-password" className="font-medium text-accent hover:underline">
+              {t('login.forgotPassword')}
+            </Link>
+          </div>
+
           {error && (
-            <div className="text-red-500 text-sm text-center">{error}</div>
+            <div className="text-red-500 text-sm text-center" role="alert">{t(error)}</div>
+          )}
+          {lockoutSeconds > 0 && (
+            <div className="text-muted text-sm text-center">{t('auth.retryIn', { seconds: lockoutSeconds })}</div>
           )}
 
           <div>
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || lockoutSeconds > 0}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? 'Signing in...' : 'Sign in'}
+              {isLoading ? t('login.submitting') : t('login.submit')}
             </button>
           </div>
         </form>
+        <p className="text-center text-sm text-muted">
+          {t('login.noAccount')}{' '}
+          <Link href="/signup" className="font-medium text-accent hover:text-accent">
+            {t('login.signUpLink')}
+          </Link>
+        </p>
       </div>
     </div>
   );
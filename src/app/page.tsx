@@ -1,5 +1,10 @@
-import { redirect } from 'next/navigation';
+import { AuthGuard } from './auth-guard';
+import Dashboard from './dashboard/dashboard';
 
 export default function Home() {
-  redirect('/login');
+  return (
+    <AuthGuard>
+      <Dashboard />
+    </AuthGuard>
+  );
 }
@@ -0,0 +1,9 @@
+import { GuestGuard } from "../auth-guard";
+
+export default function ResetPasswordLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <GuestGuard>{children}</GuestGuard>;
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Suspense, useState } from 'react';
+import { authApi, MIN_PASSWORD_LENGTH } from '../api/auth';
+import { isApiError } from '../api/http';
+import type { MessageKey } from '../i18n/en';
+import { useI18n } from '../i18n/i18n-provider';
+import LanguageSwitcher from '../i18n/language-switcher';
+
+function ResetPasswordForm() {
+  const { t } = useI18n();
+  const token = useSearchParams().get('token');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<MessageKey | ''>('');
+  const [done, setDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError('signup.passwordTooShort');
+      return;
+    }
+    if (password !== confirmation) {
+      setError('passwordReset.mismatch');
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await authApi.resetPassword({ token, password });
+      setDone(true);
+    } catch (err) {
+      if (isApiError(err, 'not_found')) {
+        setError('passwordReset.invalidLink');
+      } else if (isApiError(err, 'rate_limited')) {
+        setError('auth.rateLimited');
+      } else if (isApiError(err, 'network') || isApiError(err, 'timeout')) {
+        setError('auth.networkError');
+      } else if (isApiError(err, 'server')) {
+        setError('auth.serverError');
+      } else {
+        setError('passwordReset.failed');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = 'appearance-none relative block w-full px-3 py-2 border border-line placeholder-subtle text-foreground rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm';
+
+  if (done) {
+    return (
+      <p className="text-center text-sm text-foreground" role="status">
+        {t('passwordReset.done')}{' '}
+        <Link href="/login" className="font-medium text-accent hover:text-accent">
+          {t('signup.signInLink')}
+        </Link>
+      </p>
+    );
+  }
+
+  if (!token || error === 'passwordReset.invalidLink') {
+    return (
+      <p className="text-center text-sm text-red-500" role="alert">
+        {t('passwordReset.invalidLink')}{' '}
+        <Link href="/forgot-password" className="font-medium text-accent hover:text-accent">
+          {t('passwordReset.requestNew')}
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form className="mt-8 space-y-4" onSubmit={handleSubmit} noValidate>
+      <div>
+        <label htmlFor="password" className="sr-only">
+          {t('passwordReset.newPassword')}
+        </label>
+        <input
+          id="password"
+          name="password"
+          type="password"
+          autoComplete="new-password"
+          required
+          className={inputClassName}
+          placeholder={t('passwordReset.newPassword')}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <div>
+        <label htmlFor="confirmation" className="sr-only">
+          {t('passwordReset.confirmPassword')}
+        </label>
+        <input
+          id="confirmation"
+          name="confirmation"
+          type="password"
+          autoComplete="new-password"
+          required
+          className={inputClassName}
+          placeholder={t('passwordReset.confirmPassword')}
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+        />
+      </div>
+
+      {error && (
+        <div className="text-red-500 text-sm text-center" role="alert">{t(error, { min: MIN_PASSWORD_LENGTH })}</div>
+      )}
+
+      <div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? t('passwordReset.saving') : t('passwordReset.save')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  const { t } = useI18n();
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 bg-surface p-8 rounded-xl shadow-lg">
+        <div className="flex justify-end">
+          <LanguageSwitcher />
+        </div>
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t('app.title')}
+          </h2>
+          <p className="mt-2 text-center text-sm text-muted">
+            {t('passwordReset.chooseSubtitle')}
+          </p>
+        </div>
+        <Suspense fallback={null}>
+          <ResetPasswordForm />
+        </Suspense>
+        <p className="text-center text-sm text-muted">
+          <Link href="/login" className="font-medium text-accent hover:text-accent">
+            {t('passwordReset.backToLogin')}
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
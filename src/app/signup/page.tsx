@@ -0,0 +1,170 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { authApi, MIN_PASSWORD_LENGTH } from '../api/auth';
+import { isApiError } from '../api/http';
+import { useAuthStore } from "../auth-store";
+import type { MessageKey } from '../i18n/en';
+import { useI18n } from '../i18n/i18n-provider';
+import LanguageSwitcher from '../i18n/language-switcher';
+
+type SignUpFields = {
+  name: string;
+  email: string;
+  password: string;
+};
+
+type FieldErrors = Partial<Record<keyof SignUpFields, MessageKey>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function validate({ name, email, password }: SignUpFields): FieldErrors {
+  const errors: FieldErrors = {};
+  if (name.trim().length < 2) {
+    errors.name = 'signup.nameTooShort';
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    errors.email = 'signup.invalidEmail';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = 'signup.passwordTooShort';
+  }
+  return errors;
+}
+
+export default function SignUpPage() {
+  const { t } = useI18n();
+  const setSession = useAuthStore((state) => state.setSession);
+  const [fields, setFields] = useState<SignUpFields>({ name: '', email: '', password: '' });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const updateField = (field: keyof SignUpFields) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFields((prev) => ({ ...prev, [field]: e.target.value }));
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const errors = validate(fields);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsLoading(true);
+    try {
+      const response = await authApi.signup({ ...fields, name: fields.name.trim() });
+      setSession(response);
+    } catch (err) {
+      if (isApiError(err, 'conflict')) {
+        setError(t('signup.emailTaken'));
+      } else if (isApiError(err, 'validation')) {
+        setError(err.message);
+      } else if (isApiError(err, 'network') || isApiError(err, 'timeout')) {
+        setError(t('auth.networkError'));
+      } else {
+        setError(t('signup.failed'));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = 'appearance-none relative block w-full px-3 py-2 border border-line placeholder-subtle text-foreground rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm';
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 bg-surface p-8 rounded-xl shadow-lg">
+        <div className="flex justify-end">
+          <LanguageSwitcher />
+        </div>
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t('app.title')}
+          </h2>
+          <p className="mt-2 text-center text-sm text-muted">
+            {t('signup.subtitle')}
+          </p>
+        </div>
+        <form className="mt-8 space-y-4" onSubmit={handleSubmit} noValidate>
+          <div>
+            <label htmlFor="name" className="sr-only">
+              {t('auth.name')}
+            </label>
+            <input
+              id="name"
+              name="name"
+              type="text"
+              autoComplete="name"
+              required
+              className={inputClassName}
+              placeholder={t('auth.name')}
+              value={fields.name}
+              onChange={updateField('name')}
+              aria-invalid={!!fieldErrors.name}
+            />
+            {fieldErrors.name && <div className="mt-1 text-red-500 text-sm">{t(fieldErrors.name)}</div>}
+          </div>
+          <div>
+            <label htmlFor="email" className="sr-only">
+              {t('auth.email')}
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+              className={inputClassName}
+              placeholder={t('auth.email')}
+              value={fields.email}
+              onChange={updateField('email')}
+              aria-invalid={!!fieldErrors.email}
+            />
+            {fieldErrors.email && <div className="mt-1 text-red-500 text-sm">{t(fieldErrors.email)}</div>}
+          </div>
+          <div>
+            <label htmlFor="password" className="sr-only">
+              {t('auth.password')}
+            </label>
+            <input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              required
+              className={inputClassName}
+              placeholder={t('auth.password')}
+              value={fields.password}
+              onChange={updateField('password')}
+              aria-invalid={!!fieldErrors.password}
+            />
+            {fieldErrors.password && <div className="mt-1 text-red-500 text-sm">{t(fieldErrors.password, { min: MIN_PASSWORD_LENGTH })}</div>}
+          </div>
+
+          {error && (
+            <div className="text-red-500 text-sm text-center">{error}</div>
+          )}
+
+          <div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? t('signup.submitting') : t('signup.submit')}
+            </button>
+          </div>
+        </form>
+        <p className="text-center text-sm text-muted">
+          {t('signup.haveAccount')}{' '}
+          <Link href="/login" className="font-medium text-accent hover:text-accent">
+            {t('signup.signInLink')}
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
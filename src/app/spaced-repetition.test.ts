@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { isDue, newReviewState, retentionRate, reviewStreak, scheduleReview, type Grade, type ReviewState } from "./spaced-repetition";
+
+const NOW = new Date(2026, 4, 20, 15, 0);
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function reviewedWith(grades: Grade[], state: ReviewState = newReviewState(NOW)) {
+  return grades.reduce((current, grade) => scheduleReview(current, grade, NOW), state);
+}
+
+function dueInMs(state: ReviewState) {
+  return new Date(state.dueAt).getTime() - NOW.getTime();
+}
+
+describe("scheduleReview", () => {
+  it("brings a forgotten card back in ten minutes and starts it over", () => {
+    const state = scheduleReview(reviewedWith(["good", "good", "good"]), "again", NOW);
+    expect(state.repetitions).toBe(0);
+    expect(state.intervalDays).toBe(0);
+    expect(dueInMs(state)).toBe(10 * MINUTE_MS);
+  });
+
+  it("counts \"hard\" as recalled, unlike \"again\"", () => {
+    const state = reviewedWith(["hard"]);
+    expect(state.repetitions).toBe(1);
+    expect(state.intervalDays).toBe(1);
+    expect(dueInMs(state)).toBe(DAY_MS);
+  });
+
+  it("schedules one day, then six, then the previous interval times the ease factor", () => {
+    expect(reviewedWith(["good"]).intervalDays).toBe(1);
+    expect(reviewedWith(["good", "good"]).intervalDays).toBe(6);
+    expect(reviewedWith(["good", "good", "good"]).intervalDays).toBe(15);
+  });
+
+  it("adjusts the ease factor by how well the card was recalled", () => {
+    const initial = newReviewState(NOW).easeFactor;
+    expect(reviewedWith(["again"]).easeFactor).toBeCloseTo(initial - 0.54);
+    expect(reviewedWith(["hard"]).easeFactor).toBeCloseTo(initial - 0.14);
+    expect(reviewedWith(["good"]).easeFactor).toBeCloseTo(initial);
+    expect(reviewedWith(["easy"]).easeFactor).toBeCloseTo(initial + 0.1);
+  });
+
+  it("never lets the ease factor drop below 1.3", () => {
+    const forgotten = reviewedWith(["again", "again", "again", "again"]);
+    expect(forgotten.easeFactor).toBe(1.3);
+    expect(scheduleReview(forgotten, "hard", NOW).easeFactor).toBe(1.3);
+    expect(scheduleReview(forgotten, "easy", NOW).easeFactor).toBeCloseTo(1.4);
+  });
+});
+
+describe("isDue", () => {
+  it("treats unseen cards and cards due right now as due", () => {
+    expect(isDue(undefined, NOW)).toBe(true);
+    expect(isDue(newReviewState(NOW), NOW)).toBe(true);
+    expect(isDue(reviewedWith(["good"]), NOW)).toBe(false);
+  });
+});
+
+describe("reviewStreak", () => {
+  it("counts consecutive review days ending yesterday when there is none today", () => {
+    const log = [1, 2, 4].map((daysAgo) => ({
+      cardKey: "en:a",
+      grade: "good" as const,
+      reviewedAt: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString(),
+    }));
+    expect(reviewStreak(log, NOW)).toBe(2);
+  });
+});
+
+describe("retentionRate", () => {
+  it("is the share of recent reviews not graded \"again\"", () => {
+    const at = (daysAgo: number) => new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString();
+    const log = [
+      { cardKey: "en:a", grade: "good" as const, reviewedAt: at(1) },
+      { cardKey: "en:b", grade: "again" as const, reviewedAt: at(2) },
+      { cardKey: "en:c", grade: "hard" as const, reviewedAt: at(3) },
+      { cardKey: "en:d", grade: "again" as const, reviewedAt: at(40) },
+    ];
+    expect(retentionRate(log, 30, NOW)).toBeCloseTo(2 / 3);
+    expect(retentionRate([], 30, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { dayStreak } from "./local-days";
+
+export type Grade = "again" | "hard" | "good" | "easy";
+
+export const GRADES: Grade[] = ["again", "hard", "good", "easy"];
+
+export type ReviewState = {
+  /** Consecutive successful reviews since the card was last forgotten. */
+  repetitions: number;
+  intervalDays: number;
+  easeFactor: number;
+  dueAt: string;
+};
+
+export type ReviewLogEntry = {
+  cardKey: string;
+  grade: Grade;
+  reviewedAt: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+// Forgotten cards come back within the same session instead of tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 grades recall from 0 to 5; anything below 3 counts as forgotten
+const GRADE_QUALITY: Record<Grade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function newReviewState(now = new Date()): ReviewState {
+  return { repetitions: 0, intervalDays: 0, easeFactor: INITIAL_EASE_FACTOR, dueAt: now.toISOString() };
+}
+
+/** Applies one self-graded review to a card using the SM-2 algorithm. */
+export function scheduleReview(state: ReviewState, grade: Grade, now = new Date()): ReviewState {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      repetitions: 0,
+      intervalDays: 0,
+      easeFactor,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(state.intervalDays * easeFactor);
+  }
+  return {
+    repetitions,
+    intervalDays,
+    easeFactor,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
+
+export function isDue(state: ReviewState | undefined, now = new Date()) {
+  return !state || new Date(state.dueAt).getTime() <= now.getTime();
+}
+
+/** Consecutive days, ending today or yesterday, with at least one review. */
+export function reviewStreak(log: ReviewLogEntry[], now = new Date()) {
+  return dayStreak(log.map((entry) => entry.reviewedAt), now);
+}
+
+/** Share of reviews in the last `days` days that were not graded "again", or null without reviews. */
+export function retentionRate(log: ReviewLogEntry[], days = 30, now = new Date()) {
+  const since = now.getTime() - days * DAY_MS;
+  const recent = log.filter((entry) => new Date(entry.reviewedAt).getTime() >= since);
+  if (recent.length === 0) return null;
+  return recent.filter((entry) => entry.grade !== "again").length / recent.length;
+}
@@ -0,0 +1,8 @@
+export default function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-surface rounded-lg shadow-md p-4 text-center">
+      <div className="text-2xl font-bold text-accent">{value}</div>
+      <div className="text-sm text-muted">{label}</div>
+    </div>
+  );
+}
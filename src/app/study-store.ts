@@ -0,0 +1,53 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { newReviewState, scheduleReview, type Grade, type ReviewLogEntry, type ReviewState } from "./spaced-repetition";
+
+type UserStudyData = {
+  cards: Record<string, ReviewState>;
+  log: ReviewLogEntry[];
+};
+
+type StudyState = {
+  /** Review state per user id, so people sharing a browser keep separate schedules. */
+  byUser: Record<string, UserStudyData>;
+  recordReview: (userId: string, cardKey: string, grade: Grade) => void;
+};
+
+// Enough history for the streak and the 30-day retention without growing storage forever
+const MAX_LOG_ENTRIES = 2000;
+
+const EMPTY_STUDY_DATA: UserStudyData = { cards: {}, log: [] };
+
+export function studyCardKey(word: string, language: string) {
+  return `${language}:${word}`;
+}
+
+export function selectUserStudyData(state: StudyState, userId: string | undefined): UserStudyData {
+  return (userId && state.byUser[userId]) || EMPTY_STUDY_DATA;
+}
+
+export const useStudyStore = create<StudyState>()(
+  persist(
+    (set) => ({
+      byUser: {},
+      recordReview: (userId, cardKey, grade) =>
+        set((state) => {
+          const now = new Date();
+          const data = state.byUser[userId] ?? EMPTY_STUDY_DATA;
+          const current = data.cards[cardKey] ?? newReviewState(now);
+          return {
+            byUser: {
+              ...state.byUser,
+              [userId]: {
+                cards: { ...data.cards, [cardKey]: scheduleReview(current, grade, now) },
+                log: [...data.log, { cardKey, grade, reviewedAt: now.toISOString() }].slice(-MAX_LOG_ENTRIES),
+              },
+            },
+          };
+        }),
+    }),
+    {
+      name: "study-storage",
+    }
+  )
+);
@@ -0,0 +1,108 @@
+import { waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { signIn } from "../test-utils";
+import { fetchHistory, fetchWordDetail } from "./api/services";
+import { useAuthStore } from "./auth-store";
+import { useFavoritesStore } from "./favorites-store";
+import { useHistoryStore } from "./history-store";
+import { TAB_SYNC_CHANNEL, type TabMessage } from "./tab-sync";
+
+/** Posts `message` the way another open tab of the app would. */
+function fromOtherTab(message: TabMessage) {
+  const channel = new BroadcastChannel(TAB_SYNC_CHANNEL);
+  channel.postMessage(message);
+  channel.close();
+}
+
+/** Collects what this tab sends to the others. */
+function listenAsOtherTab() {
+  const received: TabMessage[] = [];
+  const channel = new BroadcastChannel(TAB_SYNC_CHANNEL);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => received.push(event.data);
+  return { received, close: () => channel.close() };
+}
+
+describe("tab sync", () => {
+  it("signs out when another tab signs out", async () => {
+    await signIn();
+    fromOtherTab({ type: "session", session: null });
+    await waitFor(() => expect(useAuthStore.getState().token).toBeNull());
+  });
+
+  it("adopts a session started in another tab", async () => {
+    const session = { token: "other-tab-token", user: { id: "user-1", email: "ada@example.com", name: "Ada Lovelace" } };
+    fromOtherTab({ type: "session", session, remember: false });
+    await waitFor(() => expect(useAuthStore.getState().token).toBe("other-tab-token"));
+    expect(sessionStorage.getItem("auth-storage")).not.toBeNull();
+  });
+
+  it("tells the other tabs about a sign-in and a confirmed favorite", async () => {
+    const otherTab = listenAsOtherTab();
+    await signIn();
+    useFavoritesStore.getState().toggleFavorite("apple", "en");
+
+    await waitFor(() =>
+      expect(otherTab.received).toEqual([
+        expect.objectContaining({ type: "session", remember: true }),
+        expect.objectContaining({ type: "favorite", word: "apple", language: "en", entry: expect.objectContaining({ word: "apple" }) }),
+      ])
+    );
+    otherTab.close();
+  });
+
+  it("tells the other tabs when history is deleted, but not when a word is looked up", async () => {
+    const { token } = await signIn();
+    const otherTab = listenAsOtherTab();
+
+    await fetchWordDetail("ocean", token, "en");
+    const { results } = await fetchHistory(token, 1, 10, "en");
+    await useHistoryStore.getState().deleteEntries(results.slice(0, 1));
+
+    await waitFor(() => expect(otherTab.received).toEqual([{ type: "history" }]));
+    otherTab.close();
+  });
+
+  it("applies favorites and history changed in another tab", async () => {
+    await signIn();
+    const { revision } = useHistoryStore.getState();
+    fromOtherTab({ type: "favorite", word: "apple", language: "en", entry: { word: "apple", language: "en", added: new Date().toISOString() } });
+    fromOtherTab({ type: "history" });
+
+    await waitFor(() => expect(useFavoritesStore.getState().favorites.map(fav => fav.word)).toContain("apple"));
+    await waitFor(() => expect(useHistoryStore.getState().revision).toBe(revision + 1));
+  });
+});
+
+describe("tab sync without BroadcastChannel", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  async function loadWithoutBroadcastChannel() {
+    vi.stubGlobal("BroadcastChannel", undefined);
+    vi.resetModules();
+    return import("./tab-sync");
+  }
+
+  it("receives messages through storage events", async () => {
+    const { subscribeToTabMessages } = await loadWithoutBroadcastChannel();
+    const received: TabMessage[] = [];
+    subscribeToTabMessages(message => received.push(message));
+
+    const newValue = JSON.stringify({ message: { type: "history" }, sequence: 1, sentAt: Date.now() });
+    window.dispatchEvent(new StorageEvent("storage", { key: TAB_SYNC_CHANNEL, newValue }));
+    window.dispatchEvent(new StorageEvent("storage", { key: TAB_SYNC_CHANNEL, newValue: null }));
+    expect(received).toEqual([{ type: "history" }]);
+  });
+
+  it("sends messages through localStorage without leaving them behind", async () => {
+    const { postTabMessage } = await loadWithoutBroadcastChannel();
+    const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+    postTabMessage({ type: "favorites" });
+    expect(setItem).toHaveBeenCalledWith(TAB_SYNC_CHANNEL, expect.stringContaining('"type":"favorites"'));
+    expect(localStorage.getItem(TAB_SYNC_CHANNEL)).toBeNull();
+    setItem.mockRestore();
+  });
+});
@@ -0,0 +1,75 @@
+import type { AuthResponse } from "./api/auth";
+import type { DictionaryLanguage, FavoriteWord } from "./api/types";
+import { reportError } from "./telemetry/telemetry";
+
+/** Changes one tab makes that every other open tab of the app has to reflect. */
+export type TabMessage =
+  | { type: "session"; session: AuthResponse | null; remember?: boolean }
+  | { type: "favorite"; word: string; language: DictionaryLanguage; entry: FavoriteWord | null }
+  | { type: "favorites" }
+  | { type: "history" };
+
+type Listener = (message: TabMessage) => void;
+
+export const TAB_SYNC_CHANNEL = "dictionary-tab-sync";
+
+const listeners = new Set<Listener>();
+let channel: BroadcastChannel | null = null;
+let listening = false;
+// Makes every fallback write unique, since writing the same value again fires no storage event
+let sequence = 0;
+
+function deliver(message: TabMessage) {
+  listeners.forEach((listener) => listener(message));
+}
+
+function handleStorage(event: StorageEvent) {
+  if (event.key !== TAB_SYNC_CHANNEL || !event.newValue) return;
+  try {
+    deliver((JSON.parse(event.newValue) as { message: TabMessage }).message);
+  } catch {
+    // Not written by this module
+  }
+}
+
+function listen() {
+  if (listening || typeof window === "undefined") return;
+  listening = true;
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(TAB_SYNC_CHANNEL);
+    channel.onmessage = (event: MessageEvent<TabMessage>) => deliver(event.data);
+  } else {
+    window.addEventListener("storage", handleStorage);
+  }
+}
+
+/**
+ * Sends `message` to the other open tabs, never to this one. Uses a BroadcastChannel
+ * where available and otherwise a localStorage write, which other tabs see as a
+ * `storage` event.
+ */
+export function postTabMessage(message: TabMessage) {
+  if (typeof window === "undefined") return;
+  listen();
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    localStorage.setItem(TAB_SYNC_CHANNEL, JSON.stringify({ message, sequence: ++sequence, sentAt: Date.now() }));
+    // The event has already been queued for the other tabs; the entry itself is not needed
+    localStorage.removeItem(TAB_SYNC_CHANNEL);
+  } catch (err) {
+    // Storage full or disabled: the other tabs catch up on their next reload
+    reportError(err, "tab-sync", { type: message.type });
+  }
+}
+
+/** Listens for messages posted by other tabs. */
+export function subscribeToTabMessages(listener: Listener) {
+  listen();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { Component, type ErrorInfo } from "react";
+import { useI18n } from "../i18n/i18n-provider";
+import { reportError } from "./telemetry";
+
+function ErrorFallback({ onRetry }: { onRetry: () => void }) {
+  const { t } = useI18n();
+
+  return (
+    <div role="alert" className="min-h-[50vh] flex flex-col items-center justify-center gap-4 px-4 text-center">
+      <h2 className="text-2xl font-bold text-foreground">{t("errorBoundary.title")}</h2>
+      <p className="text-muted max-w-md">{t("errorBoundary.message")}</p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className="px-4 py-2 rounded-md bg-indigo-600 text-white text-sm hover:bg-indigo-700"
+          onClick={onRetry}
+        >
+          {t("errorBoundary.retry")}
+        </button>
+        <button
+          type="button"
+          className="px-4 py-2 rounded-md border border-line text-muted text-sm hover:bg-surface-hover"
+          onClick={() => window.location.reload()}
+        >
+          {t("errorBoundary.reload")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type ErrorBoundaryProps = {
+  /** Identifies the boundary in the reported error events. */
+  name: string;
+  children: React.ReactNode;
+};
+
+/**
+ * Reports render errors in its children and replaces them with a recovery screen
+ * that can render them again or reload the page.
+ */
+export default class ErrorBoundary extends Component<ErrorBoundaryProps, { error: Error | null }> {
+  state: { error: Error | null } = { error: null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    reportError(error, `error-boundary:${this.props.name}`, { componentStack: info.componentStack });
+  }
+
+  private retry = () => this.setState({ error: null });
+
+  render() {
+    if (this.state.error) return <ErrorFallback onRetry={this.retry} />;
+    return this.props.children;
+  }
+}
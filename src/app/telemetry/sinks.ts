@@ -0,0 +1,44 @@
+import { getBackendUrl, type TelemetryConfig } from "../config";
+import type { TelemetrySink } from "./telemetry";
+
+const TELEMETRY_PATH = "/telemetry/events";
+
+/** Logs each batch to the browser console; meant for development. */
+export const consoleSink: TelemetrySink = {
+  send: (records) => {
+    console.groupCollapsed(`[telemetry] ${records.length} event${records.length === 1 ? "" : "s"}`);
+    for (const record of records) console.info(record.type, record);
+    console.groupEnd();
+  },
+};
+
+/**
+ * Posts each batch as `{ events }` JSON to `endpoint`. It bypasses the API client on
+ * purpose, so telemetry requests are never retried and their failures are not reported.
+ */
+export function createHttpSink(endpoint: () => string): TelemetrySink {
+  return {
+    send: async (records, { unloading }) => {
+      const body = JSON.stringify({ events: records });
+      // fetch may be cancelled while the page unloads; a beacon is queued by the browser instead
+      if (unloading && typeof navigator !== "undefined" && navigator.sendBeacon) {
+        navigator.sendBeacon(endpoint(), new Blob([body], { type: "application/json" }));
+        return;
+      }
+      await fetch(endpoint(), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+        keepalive: true,
+      });
+    },
+  };
+}
+
+export function createSink(telemetry: TelemetryConfig): TelemetrySink | null {
+  if (telemetry.sink === "console") return consoleSink;
+  if (telemetry.sink === "http") {
+    return createHttpSink(() => telemetry.endpoint ?? `${getBackendUrl()}${TELEMETRY_PATH}`);
+  }
+  return null;
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useReportWebVitals } from "next/web-vitals";
+import { useEffect } from "react";
+import { reportError, track } from "./telemetry";
+
+// Kept outside the component so the callback Next.js registers never changes
+function reportWebVital(metric: { name: string; value: number; rating?: string; id: string }) {
+  track({ type: "web-vital", name: metric.name, value: metric.value, rating: metric.rating, id: metric.id });
+}
+
+/** Reports Web Vitals and the errors nothing else caught. Renders nothing. */
+export default function TelemetryReporter() {
+  useReportWebVitals(reportWebVital);
+
+  useEffect(() => {
+    const handleError = (event: ErrorEvent) => reportError(event.error ?? event.message, "window");
+    const handleRejection = (event: PromiseRejectionEvent) => reportError(event.reason, "unhandledrejection");
+    window.addEventListener("error", handleError);
+    window.addEventListener("unhandledrejection", handleRejection);
+    return () => {
+      window.removeEventListener("error", handleError);
+      window.removeEventListener("unhandledrejection", handleRejection);
+    };
+  }, []);
+
+  return null;
+}
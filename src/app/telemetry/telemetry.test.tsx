@@ -0,0 +1,109 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { http, HttpResponse } from "msw";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MOCK_BACKEND_URL } from "../../../mocks/handlers";
+import { server } from "../../../mocks/node";
+import { renderWithProviders } from "../../test-utils";
+import { request } from "../api/http";
+import ErrorBoundary from "./error-boundary";
+import { createHttpSink } from "./sinks";
+import { flushTelemetry, reportError, setTelemetrySink, track, type TelemetryRecord } from "./telemetry";
+
+function recordingSink() {
+  const batches: TelemetryRecord[][] = [];
+  setTelemetrySink({ send: records => void batches.push(records) });
+  return batches;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  setTelemetrySink(null);
+});
+
+describe("telemetry", () => {
+  it("sends events in batches of the configured size", () => {
+    const batches = recordingSink();
+    for (let i = 0; i < 21; i++) track({ type: "web-vital", name: "CLS", value: i, id: `v${i}` });
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toHaveLength(20);
+    flushTelemetry();
+    expect(batches[1]).toEqual([expect.objectContaining({ type: "web-vital", value: 20, page: "/" })]);
+  });
+
+  it("sends a partial batch after the flush interval", () => {
+    vi.useFakeTimers();
+    const batches = recordingSink();
+    reportError(new TypeError("boom"), "test", { step: 1 });
+
+    expect(batches).toHaveLength(0);
+    vi.advanceTimersByTime(10_000);
+    expect(batches).toEqual([
+      [expect.objectContaining({ type: "error", source: "test", name: "TypeError", message: "boom", context: { step: 1 } })],
+    ]);
+  });
+
+  it("reports failed API calls with their endpoint, status and duration", async () => {
+    server.use(http.get(`${MOCK_BACKEND_URL}/broken`, () => new HttpResponse(null, { status: 404 })));
+    const batches = recordingSink();
+
+    await expect(request("/broken")).rejects.toThrow();
+    flushTelemetry();
+    expect(batches[0]).toEqual([
+      expect.objectContaining({
+        type: "api-error",
+        method: "GET",
+        endpoint: "/broken",
+        status: 404,
+        kind: "not_found",
+        attempts: 1,
+        durationMs: expect.any(Number),
+      }),
+    ]);
+  });
+
+  it("posts batches to the HTTP endpoint", async () => {
+    let received: unknown;
+    server.use(
+      http.post(`${MOCK_BACKEND_URL}/telemetry/events`, async ({ request }) => {
+        received = await request.json();
+        return new HttpResponse(null, { status: 202 });
+      })
+    );
+    const sink = createHttpSink(() => `${MOCK_BACKEND_URL}/telemetry/events`);
+
+    await sink.send([{ type: "web-vital", name: "LCP", value: 1200, id: "v1", at: "2026-01-01T00:00:00.000Z", page: "/" }], { unloading: false });
+    expect(received).toEqual({ events: [expect.objectContaining({ name: "LCP", value: 1200 })] });
+  });
+});
+
+describe("ErrorBoundary", () => {
+  it("reports a render error and renders the children again on retry", async () => {
+    const batches = recordingSink();
+    let broken = true;
+    function Flaky() {
+      if (broken) throw new Error("render failed");
+      return <p>Recovered</p>;
+    }
+    // React logs caught render errors; they are expected here
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const user = userEvent.setup();
+    renderWithProviders(
+      <ErrorBoundary name="test">
+        <Flaky />
+      </ErrorBoundary>
+    );
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Something went wrong");
+    flushTelemetry();
+    expect(batches[0]).toEqual([
+      expect.objectContaining({ type: "error", source: "error-boundary:test", message: "render failed" }),
+    ]);
+
+    broken = false;
+    await user.click(screen.getByRole("button", { name: "Try again" }));
+    expect(screen.getByText("Recovered")).toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+});
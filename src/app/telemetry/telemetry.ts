@@ -0,0 +1,98 @@
+import type { ApiErrorKind } from "../api/http";
+import { config } from "../config";
+import { createSink } from "./sinks";
+
+export type TelemetryEvent =
+  | {
+      type: "error";
+      /** Where the error was caught, e.g. "error-boundary:dictionary" or "window". */
+      source: string;
+      name: string;
+      message: string;
+      stack?: string;
+      context?: Record<string, unknown>;
+    }
+  | {
+      type: "api-error";
+      method: string;
+      endpoint: string;
+      status: number | null;
+      kind: ApiErrorKind;
+      durationMs: number;
+      attempts: number;
+    }
+  | {
+      type: "web-vital";
+      name: string;
+      value: number;
+      rating?: string;
+      id: string;
+    };
+
+/** An event as it is handed to a sink, stamped with when and on which page it happened. */
+export type TelemetryRecord = TelemetryEvent & {
+  at: string;
+  page: string;
+};
+
+export type TelemetrySink = {
+  /** `unloading` is set when the page is going away and only fire-and-forget delivery can work. */
+  send: (records: TelemetryRecord[], options: { unloading: boolean }) => void | Promise<void>;
+};
+
+let sink: TelemetrySink | null | undefined;
+let queue: TelemetryRecord[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function currentSink() {
+  if (sink === undefined) sink = createSink(config.telemetry);
+  return sink;
+}
+
+/** Replaces the configured sink; null drops every event. */
+export function setTelemetrySink(next: TelemetrySink | null) {
+  sink = next;
+  queue = [];
+}
+
+/** Hands every queued event to the sink at once. */
+export function flushTelemetry({ unloading = false } = {}) {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (queue.length === 0) return;
+  const batch = queue;
+  queue = [];
+  try {
+    // A failed delivery is dropped: reporting it would only queue more events for the same sink
+    Promise.resolve(currentSink()?.send(batch, { unloading })).catch(() => undefined);
+  } catch {
+    // Same as above, for sinks that throw synchronously
+  }
+}
+
+/** Queues `event`; the queue is flushed when it reaches the batch size or after the flush interval. */
+export function track(event: TelemetryEvent) {
+  if (typeof window === "undefined" || !currentSink()) return;
+  queue.push({ ...event, at: new Date().toISOString(), page: window.location.pathname });
+  if (queue.length >= config.telemetry.batchSize) {
+    flushTelemetry();
+  } else if (!timer) {
+    timer = setTimeout(flushTelemetry, config.telemetry.flushIntervalMs);
+  }
+}
+
+/** Reports an error caught at `source`, with anything that helps tell where it came from. */
+export function reportError(error: unknown, source: string, context?: Record<string, unknown>) {
+  const err = error instanceof Error ? error : new Error(String(error));
+  track({ type: "error", source, name: err.name, message: err.message, stack: err.stack, context });
+}
+
+if (typeof window !== "undefined") {
+  // Events still queued when the tab is hidden or closed would otherwise be lost
+  window.addEventListener("pagehide", () => flushTelemetry({ unloading: true }));
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushTelemetry({ unloading: true });
+  });
+}
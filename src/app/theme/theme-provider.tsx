@@ -0,0 +1,36 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { THEME_COOKIE, type Theme } from "./themes";
+
+const THEME_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+type ThemeContextValue = {
+  theme: Theme;
+  setTheme: (theme: Theme) => void;
+};
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export function ThemeProvider({ initialTheme, children }: { initialTheme: Theme; children: React.ReactNode }) {
+  const [theme, setThemeState] = useState(initialTheme);
+
+  const setTheme = useCallback((next: Theme) => {
+    // The cookie lets the root layout render <html data-theme> on the next request, so there is no flash
+    document.cookie = `${THEME_COOKIE}=${next}; path=/; max-age=${THEME_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.dataset.theme = next;
+    setThemeState(next);
+  }, []);
+
+  const value = useMemo(() => ({ theme, setTheme }), [theme, setTheme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error("useTheme must be used within a ThemeProvider");
+  }
+  return context;
+}
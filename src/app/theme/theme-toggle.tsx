@@ -0,0 +1,31 @@
+"use client";
+
+import { useI18n } from "../i18n/i18n-provider";
+import { useTheme } from "./theme-provider";
+import { THEMES, type Theme } from "./themes";
+
+const THEME_ICONS: Record<Theme, string> = {
+  light: "☀",
+  dark: "☾",
+  system: "◐",
+};
+
+/** Cycles through light, dark and system themes. */
+export default function ThemeToggle({ className = "" }: { className?: string }) {
+  const { t } = useI18n();
+  const { theme, setTheme } = useTheme();
+  const next = THEMES[(THEMES.indexOf(theme) + 1) % THEMES.length];
+
+  return (
+    <button
+      type="button"
+      className={`flex items-center gap-1 rounded-md px-2 py-0.5 hover:bg-white/20 ${className}`}
+      onClick={() => setTheme(next)}
+      aria-label={t("theme.toggle", { theme: t(`theme.${theme}`), next: t(`theme.${next}`) })}
+      title={t("theme.toggle", { theme: t(`theme.${theme}`), next: t(`theme.${next}`) })}
+    >
+      <span aria-hidden="true">{THEME_ICONS[theme]}</span>
+      <span className="hidden sm:inline">{t(`theme.${theme}`)}</span>
+    </button>
+  );
+}
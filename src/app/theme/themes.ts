@@ -0,0 +1,9 @@
+export const THEMES = ["light", "dark", "system"] as const;
+export type Theme = (typeof THEMES)[number];
+
+export const DEFAULT_THEME: Theme = "system";
+export const THEME_COOKIE = "theme";
+
+export function isTheme(value: string | null | undefined): value is Theme {
+  return THEMES.includes(value as Theme);
+}
@@ -0,0 +1,29 @@
+import { create } from "zustand";
+
+export type ToastKind = "info" | "error";
+
+export type Toast = {
+  id: number;
+  message: string;
+  kind: ToastKind;
+};
+
+type ToastState = {
+  toasts: Toast[];
+  showToast: (message: string, kind?: ToastKind) => void;
+  dismissToast: (id: number) => void;
+};
+
+const TOAST_DURATION_MS = 4000;
+
+let nextToastId = 0;
+
+export const useToastStore = create<ToastState>()((set, get) => ({
+  toasts: [],
+  showToast: (message, kind = "info") => {
+    const id = nextToastId++;
+    set((state) => ({ toasts: [...state.toasts, { id, message, kind }] }));
+    setTimeout(() => get().dismissToast(id), TOAST_DURATION_MS);
+  },
+  dismissToast: (id) => set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) })),
+}));
@@ -0,0 +1,32 @@
+"use client";
+
+import { useI18n } from "./i18n/i18n-provider";
+import { useToastStore } from "./toast-store";
+
+export default function Toaster() {
+  const { t } = useI18n();
+  const toasts = useToastStore((state) => state.toasts);
+  const dismissToast = useToastStore((state) => state.dismissToast);
+
+  return (
+    <div className="fixed top-12 right-4 z-50 flex flex-col gap-2" aria-live="polite">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role={toast.kind === "error" ? "alert" : "status"}
+          className={`flex items-center gap-3 px-4 py-2 rounded-md shadow-lg text-sm ${toast.kind === "error" ? "bg-red-600 text-white" : "bg-gray-800 text-white"}`}
+        >
+          <span>{toast.message}</span>
+          <button
+            type="button"
+            className="opacity-75 hover:opacity-100"
+            onClick={() => dismissToast(toast.id)}
+            aria-label={t("common.dismiss")}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { create } from "zustand";
+import { DEFAULT_DICTIONARY_LANGUAGE, fetchWords } from "./api/services";
+import type { DictionaryLanguage, WordsPageRequest } from "./api/types";
+import type { MessageKey } from "./i18n/en";
+
+type WordListState = {
+  /** Dictionary the loaded words come from; changing it starts the list over. */
+  language: DictionaryLanguage;
+  words: string[];
+  /** Next page to load, or null once the backend reports no more words. */
+  next: WordsPageRequest | null;
+  loading: boolean;
+  error: MessageKey | "";
+  /** Scroll offset of the word grid, kept so switching tabs does not lose the position. */
+  scrollTop: number;
+  setLanguage: (language: DictionaryLanguage) => void;
+  loadMore: (pageSize: number) => Promise<void>;
+  setScrollTop: (scrollTop: number) => void;
+};
+
+export const useWordListStore = create<WordListState>()((set, get) => ({
+  language: DEFAULT_DICTIONARY_LANGUAGE,
+  words: [],
+  next: { page: 1 },
+  loading: false,
+  error: "",
+  scrollTop: 0,
+  setLanguage: (language) => {
+    if (language === get().language) return;
+    set({ language, words: [], next: { page: 1 }, loading: false, error: "", scrollTop: 0 });
+  },
+  loadMore: async (pageSize) => {
+    const { next, loading, language } = get();
+    if (!next || loading) return;
+    set({ loading: true, error: "" });
+    try {
+      const page = await fetchWords(next, pageSize, language);
+      // The language may have changed while the page was loading
+      if (get().language !== language) return;
+      set((state) => {
+        const seen = new Set(state.words);
+        return {
+          words: [...state.words, ...page.words.filter((word) => !seen.has(word))],
+          next: page.next,
+          loading: false,
+        };
+      });
+    } catch {
+      if (get().language !== language) return;
+      set({ error: "words.error", loading: false });
+    }
+  },
+  setScrollTop: (scrollTop) => set({ scrollTop }),
+}));
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { parseWordList, toCsv } from "./word-transfer";
+
+describe("toCsv", () => {
+  it("keeps spreadsheets from running cells as formulas", () => {
+    const csv = toCsv([
+      { word: "=HYPERLINK(\"http://evil.test\")", added: "2026-05-20", language: "en" },
+      { word: "-ish", added: "2026-05-20", language: "en" },
+      { word: "@home", added: "2026-05-20", language: "en" },
+      { word: "courage", added: "2026-05-20", language: "en" },
+    ]);
+    expect(csv.split("\n").slice(1).map((line) => line.split(",")[0])).toEqual([
+      "\"'=HYPERLINK(\"\"http://evil.test\"\")\"",
+      "'-ish",
+      "'@home",
+      "courage",
+    ]);
+  });
+
+  it("reads its own export back to the original words", () => {
+    const words = ["+1", "-ish", "courage"];
+    const csv = toCsv(words.map((word) => ({ word, added: "2026-05-20", language: "en" })));
+    expect(parseWordList(csv, "favorites-en.csv")).toEqual(words);
+  });
+});
@@ -0,0 +1,137 @@
+import type { WordDetail } from "./api/types";
+
+export type ExportFormat = "csv" | "json" | "anki";
+
+export type ExportRow = {
+  word: string;
+  added: string;
+  language: string;
+};
+
+// Spreadsheets run cells starting with these as formulas; such cells are exported behind a "'"
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string) {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: ExportRow[]) {
+  const lines = [["word", "added", "language"], ...rows.map((row) => [row.word, row.added, row.language])];
+  return lines.map((line) => line.map(csvField).join(",")).join("\n");
+}
+
+export function toJson(rows: ExportRow[]) {
+  return JSON.stringify(rows, null, 2);
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Back of an Anki card: every part of speech with its definitions and first example. */
+export function ankiBack(detail: WordDetail | null) {
+  if (!detail) return "";
+  const phonetic = detail.phonetics.find((p) => p.text)?.text;
+  const meanings = detail.meanings.map((meaning) => {
+    const definitions = meaning.definitions
+      .map((def) => `<li>${escapeHtml(def.definition)}${def.example ? `<br><i>${escapeHtml(def.example)}</i>` : ""}</li>`)
+      .join("");
+    return `<b>${escapeHtml(meaning.partOfSpeech)}</b><ol>${definitions}</ol>`;
+  });
+  return [phonetic ? escapeHtml(phonetic) : "", ...meanings].filter(Boolean).join("").replace(/[\t\n\r]/g, " ");
+}
+
+/** Tab-separated deck in the format Anki's "Import File" accepts, with HTML fields. */
+export function toAnkiDeck(cards: { word: string; back: string }[]) {
+  const header = ["#separator:tab", "#html:true", "#columns:Front\tBack"];
+  return [...header, ...cards.map((card) => `${card.word.replace(/[\t\n\r]/g, " ")}\t${card.back}`)].join("\n");
+}
+
+function parseCsvLine(line: string) {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Reads words from a CSV (first column, optional `word` header) or a JSON file
+ * (an array of strings or of objects with a `word` field).
+ */
+export function parseWordList(text: string, fileName: string): string[] {
+  let words: string[];
+  if (fileName.toLowerCase().endsWith(".json")) {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error("Expected a JSON array");
+    words = data
+      .map((item) => (typeof item === "string" ? item : (item as { word?: unknown } | null)?.word))
+      .filter((word): word is string => typeof word === "string");
+  } else {
+    words = text.split(/\r?\n/).map((line) => parseCsvLine(line)[0] ?? "");
+    if (words[0]?.trim().toLowerCase() === "word") words = words.slice(1);
+    // Undoes the "'" our own export puts in front of cells a spreadsheet would run as formulas
+    words = words.map((word) => (word.startsWith("'") && FORMULA_PREFIX.test(word.slice(1)) ? word.slice(1) : word));
+  }
+  return words.map((word) => word.trim()).filter(Boolean);
+}
+
+// Some browsers start reading the blob only after the click handler returns
+const REVOKE_DELAY_MS = 10_000;
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `task` for each item one at a time, waiting at least `intervalMs` between
+ * starts so bulk operations stay under the backend's rate limit.
+ */
+export async function runRateLimited<T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  { intervalMs, onProgress, signal }: { intervalMs: number; onProgress?: (done: number) => void; signal?: AbortSignal }
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = [];
+  for (const [index, item] of items.entries()) {
+    if (signal?.aborted) break;
+    const startedAt = Date.now();
+    try {
+      results.push({ status: "fulfilled", value: await task(item) });
+    } catch (reason) {
+      results.push({ status: "rejected", reason });
+    }
+    onProgress?.(index + 1);
+    const elapsed = Date.now() - startedAt;
+    if (index < items.length - 1 && elapsed < intervalMs) await sleep(intervalMs - elapsed);
+  }
+  return results;
+}
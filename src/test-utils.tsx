@@ -0,0 +1,36 @@
+import { render, type RenderOptions } from "@testing-library/react";
+import axe from "axe-core";
+import { expect } from "vitest";
+import { authApi } from "./app/api/auth";
+import { useAuthStore } from "./app/auth-store";
+import { I18nProvider } from "./app/i18n/i18n-provider";
+
+/** Renders `ui` inside the providers the app layout normally supplies. */
+export function renderWithProviders(ui: React.ReactElement, options?: Omit<RenderOptions, "wrapper">) {
+  return render(ui, {
+    wrapper: ({ children }) => <I18nProvider initialLocale="en">{children}</I18nProvider>,
+    ...options,
+  });
+}
+
+/** Signs in against the mock backend and stores the session, as the login page would. */
+export async function signIn(email = "ada@example.com", password = "password123") {
+  const session = await authApi.signin({ email, password });
+  useAuthStore.getState().setSession(session);
+  return session;
+}
+
+/**
+ * Audits `container` with axe and fails listing every violation found. Color contrast is
+ * left out: jsdom computes no styles, so axe cannot tell the colors apart.
+ */
+export async function expectNoAxeViolations(container: Element) {
+  const { violations } = await axe.run(container, {
+    resultTypes: ["violations"],
+    rules: { "color-contrast": { enabled: false } },
+  });
+  const found = violations.map(
+    (violation) => `${violation.id}: ${violation.help} (${violation.nodes.map((node) => node.target.join(" ")).join(", ")})`
+  );
+  expect(found).toEqual([]);
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig keeps JSX as-is for Next.js; the tests need it compiled
+  oxc: {
+    jsx: { runtime: "automatic" },
+  },
+  test: {
+    environment: "jsdom",
+    include: ["src/**/*.test.{ts,tsx}"],
+    setupFiles: ["./vitest.setup.ts"],
+    env: {
+      NEXT_PUBLIC_BACKEND_URL: "http://backend.test",
+    },
+  },
+});
@@ -0,0 +1,31 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterAll, afterEach, beforeAll, beforeEach } from "vitest";
+import { mockBackend, server } from "./mocks/node";
+import { useAuthStore } from "./src/app/auth-store";
+import { useLoginThrottleStore } from "./src/app/login-throttle-store";
+
+// jsdom implements neither observer; the components only need them to exist
+class NoopObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+  takeRecords() {
+    return [];
+  }
+}
+globalThis.ResizeObserver ??= NoopObserver as unknown as typeof ResizeObserver;
+globalThis.IntersectionObserver ??= NoopObserver as unknown as typeof IntersectionObserver;
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+beforeEach(() => mockBackend.reset());
+afterEach(() => {
+  cleanup();
+  server.resetHandlers();
+  // Signing out also empties the response cache, which outlives a single test
+  useAuthStore.getState().clearSession();
+  useLoginThrottleStore.getState().reset();
+  localStorage.clear();
+  sessionStorage.clear();
+});
+afterAll(() => server.close());